@@ -0,0 +1,102 @@
+/**
+ * Write staging for DO-ORM
+ *
+ * Record, index and unique-key writes are staged in a WriteBatch and flushed
+ * as multi-key put()/delete() calls. Reads go through the staged values, so
+ * later records in a bulk write see the entries written for earlier ones.
+ */
+
+// storage.get(), put() and delete() accept at most 128 keys per call
+export const MAX_KEYS_PER_CALL = 128;
+
+type Store = DurableObjectStorage | DurableObjectTransaction;
+
+export class WriteBatch {
+  private store: Store;
+  /** Known values by key; undefined marks a key known to be absent */
+  private values = new Map<string, unknown>();
+  private puts = new Set<string>();
+  private deletes = new Set<string>();
+  /** Callbacks waiting for the staged writes to be flushed */
+  private pending: (() => Promise<unknown>)[] = [];
+
+  constructor(store: Store) {
+    this.store = store;
+  }
+
+  /**
+   * Read a key, seeing values staged in this batch
+   */
+  async get<T>(key: string): Promise<T | undefined> {
+    if (!this.values.has(key)) {
+      this.values.set(key, await this.store.get(key));
+    }
+    return this.values.get(key) as T | undefined;
+  }
+
+  /**
+   * Load keys not read yet with multi-key gets, so later get() calls are served from memory
+   */
+  async prefetch(keys: Iterable<string>): Promise<void> {
+    const missing = [...new Set(keys)].filter(key => !this.values.has(key));
+    for (let i = 0; i < missing.length; i += MAX_KEYS_PER_CALL) {
+      const chunk = missing.slice(i, i + MAX_KEYS_PER_CALL);
+      const found = await this.store.get(chunk);
+      for (const key of chunk) {
+        this.values.set(key, found.get(key));
+      }
+    }
+  }
+
+  put(key: string, value: unknown): void {
+    this.values.set(key, value);
+    this.deletes.delete(key);
+    this.puts.add(key);
+  }
+
+  delete(key: string): void {
+    this.values.set(key, undefined);
+    this.puts.delete(key);
+    this.deletes.add(key);
+  }
+
+  /**
+   * Run a callback once the writes staged so far are flushed, e.g. after-write hooks
+   */
+  afterFlush(callback: () => Promise<unknown>): void {
+    this.pending.push(callback);
+  }
+
+  /**
+   * Run the callbacks waiting on a flush, in the order they were added
+   * Writes they stage in this batch are flushed before the next callback runs
+   */
+  async settle(): Promise<void> {
+    while (this.pending.length > 0) {
+      await this.pending.shift()!();
+      await this.flush();
+    }
+  }
+
+  /**
+   * Write every staged change, up to 128 keys per call
+   */
+  async flush(): Promise<void> {
+    const puts = [...this.puts];
+    for (let i = 0; i < puts.length; i += MAX_KEYS_PER_CALL) {
+      const entries: Record<string, unknown> = {};
+      for (const key of puts.slice(i, i + MAX_KEYS_PER_CALL)) {
+        entries[key] = this.values.get(key);
+      }
+      await this.store.put(entries);
+    }
+
+    const deletes = [...this.deletes];
+    for (let i = 0; i < deletes.length; i += MAX_KEYS_PER_CALL) {
+      await this.store.delete(deletes.slice(i, i + MAX_KEYS_PER_CALL));
+    }
+
+    this.puts.clear();
+    this.deletes.clear();
+  }
+}
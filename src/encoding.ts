@@ -0,0 +1,176 @@
+/**
+ * Order-preserving encoding of index values
+ *
+ * Encoded values compare (as strings) in the same order as the values they
+ * represent, so index keys can be range-scanned with storage.list().
+ * Every component is terminated by NUL, which sorts below every other
+ * character; NUL and SOH inside strings are escaped with SOH.
+ */
+
+const TERMINATOR = '\x00';
+
+// Type tags, in sort order: null < boolean < number/date < string < other
+const NULL_TAG = '0';
+const BOOLEAN_TAG = '1';
+const NUMBER_TAG = '2';
+const STRING_TAG = '3';
+const OTHER_TAG = '4';
+
+/**
+ * Encode a number as 16 hex digits that sort in numeric order
+ */
+function encodeNumber(value: number): string {
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat64(0, value === 0 ? 0 : value); // -0 sorts with 0
+  let high = view.getUint32(0);
+  let low = view.getUint32(4);
+
+  if (high & 0x80000000) {
+    // Negative: invert every bit so larger magnitudes sort first
+    high = ~high >>> 0;
+    low = ~low >>> 0;
+  } else {
+    // Positive: set the sign bit so positives sort after negatives
+    high = (high | 0x80000000) >>> 0;
+  }
+
+  return high.toString(16).padStart(8, '0') + low.toString(16).padStart(8, '0');
+}
+
+function decodeNumber(encoded: string): number {
+  let high = parseInt(encoded.slice(0, 8), 16);
+  let low = parseInt(encoded.slice(8, 16), 16);
+
+  if (high & 0x80000000) {
+    high = (high & 0x7fffffff) >>> 0;
+  } else {
+    high = ~high >>> 0;
+    low = ~low >>> 0;
+  }
+
+  const view = new DataView(new ArrayBuffer(8));
+  view.setUint32(0, high);
+  view.setUint32(4, low);
+  return view.getFloat64(0);
+}
+
+function escapeString(value: string): string {
+  return value.replace(/[\x00\x01]/g, char => (char === '\x00' ? '\x01\x01' : '\x01\x02'));
+}
+
+function unescapeString(value: string): string {
+  return value.replace(/\x01[\x01\x02]/g, pair => (pair === '\x01\x01' ? '\x00' : '\x01'));
+}
+
+/**
+ * Encode a single index value, including its terminator
+ * Dates are encoded by timestamp, so they share the number encoding
+ */
+export function encodeIndexValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return NULL_TAG + TERMINATOR;
+  }
+  if (typeof value === 'boolean') {
+    return BOOLEAN_TAG + (value ? '1' : '0') + TERMINATOR;
+  }
+  if (typeof value === 'number') {
+    return NUMBER_TAG + encodeNumber(value) + TERMINATOR;
+  }
+  if (value instanceof Date) {
+    return NUMBER_TAG + encodeNumber(value.getTime()) + TERMINATOR;
+  }
+  if (typeof value === 'string') {
+    return STRING_TAG + escapeString(value) + TERMINATOR;
+  }
+  return OTHER_TAG + escapeString(JSON.stringify(value)) + TERMINATOR;
+}
+
+/**
+ * Encode a tuple of index values (one component per field)
+ */
+export function encodeIndexTuple(values: unknown[]): string {
+  return values.map(encodeIndexValue).join('');
+}
+
+/**
+ * Decode an encoded tuple back into its values
+ * Dates decode as timestamps; callers convert them using the schema
+ */
+export function decodeIndexTuple(encoded: string): unknown[] {
+  const components = encoded.split(TERMINATOR);
+  components.pop(); // Trailing terminator
+
+  return components.map(component => {
+    const tag = component[0];
+    const body = component.slice(1);
+    switch (tag) {
+      case NULL_TAG:
+        return null;
+      case BOOLEAN_TAG:
+        return body === '1';
+      case NUMBER_TAG:
+        return decodeNumber(body);
+      case STRING_TAG:
+        return unescapeString(body);
+      default:
+        return JSON.parse(unescapeString(body));
+    }
+  });
+}
+
+/**
+ * Smallest string that sorts after every key starting with an encoded value
+ * Swapping the trailing terminator for SOH skips past all of that value's keys
+ * without reaching the next value; used for inclusive upper and exclusive lower bounds
+ */
+export function encodedSuccessor(encoded: string): string {
+  return encoded.slice(0, -1) + '\x01';
+}
+
+/**
+ * Position of a record in a query's sort order, carried by pagination cursors
+ * Dates are stored as timestamps, which share their index encoding
+ */
+export interface CursorPosition {
+  field: string;
+  value: unknown;
+  id: string;
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Encode a sort position as an opaque, URL-safe cursor
+ */
+export function encodeCursor(position: CursorPosition): string {
+  const value = position.value instanceof Date ? position.value.getTime() : position.value;
+  return toBase64Url(JSON.stringify([position.field, value, position.id]));
+}
+
+/**
+ * Decode a cursor produced by encodeCursor()
+ */
+export function decodeCursor(cursor: string): CursorPosition {
+  try {
+    const [field, value, id] = JSON.parse(fromBase64Url(cursor));
+    if (typeof field !== 'string' || typeof id !== 'string') {
+      throw new Error('Malformed cursor');
+    }
+    return { field, value, id };
+  } catch {
+    throw new Error(`Invalid cursor: ${cursor}`);
+  }
+}
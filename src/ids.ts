@@ -0,0 +1,122 @@
+/**
+ * ID generation for DO-ORM
+ *
+ * ULIDs and UUIDv7s start with a millisecond timestamp, so they sort in
+ * creation order. Ids made within the same millisecond reuse the previous
+ * id's random part plus one, so they stay in order too.
+ */
+
+// Crockford's base 32, as used by ULIDs
+const ULID_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+/**
+ * Timestamp and random part of the last time-sortable id of each kind
+ */
+interface TimeOrderedState {
+  time: number;
+  random: Uint8Array;
+}
+
+const lastIssued: { ulid: TimeOrderedState | null; uuidv7: TimeOrderedState | null } = {
+  ulid: null,
+  uuidv7: null,
+};
+
+function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+/**
+ * Add one to a big-endian number in place; false when it overflows
+ */
+function increment(bytes: Uint8Array): boolean {
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    if (bytes[i] < 255) {
+      bytes[i]++;
+      return true;
+    }
+    bytes[i] = 0;
+  }
+  return false;
+}
+
+/**
+ * Timestamp and random part for the next id of a kind: fresh random bytes in
+ * a new millisecond, the previous ones plus one within the same millisecond
+ */
+function nextTimeOrdered(kind: keyof typeof lastIssued, fresh: () => Uint8Array): TimeOrderedState {
+  const now = Date.now();
+  const previous = lastIssued[kind];
+  let next: TimeOrderedState = { time: now, random: fresh() };
+
+  if (previous && now <= previous.time) {
+    const random = previous.random.slice();
+    next = increment(random)
+      ? { time: previous.time, random }
+      : { time: previous.time + 1, random: fresh() };
+  }
+  lastIssued[kind] = next;
+  return next;
+}
+
+/**
+ * Random UUID (version 4)
+ */
+export function uuidv4(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * Time-sortable ULID: 10 characters of timestamp and 16 of randomness
+ */
+export function ulid(): string {
+  const { time, random } = nextTimeOrdered('ulid', () => randomBytes(10));
+
+  let encoded = '';
+  let remaining = time;
+  for (let i = 0; i < 10; i++) {
+    encoded = ULID_ALPHABET[remaining % 32] + encoded;
+    remaining = Math.floor(remaining / 32);
+  }
+
+  // 80 random bits, 5 per character
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of random) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      encoded += ULID_ALPHABET[(buffer >> bits) & 31];
+    }
+    buffer &= (1 << bits) - 1;
+  }
+  return encoded;
+}
+
+/**
+ * Time-sortable UUID (version 7): a 48-bit timestamp followed by 74 random bits
+ */
+export function uuidv7(): string {
+  // Clear the random bits replaced by the version and variant, so incrementing never carries into them
+  const { time, random } = nextTimeOrdered('uuidv7', () => {
+    const bytes = randomBytes(10);
+    bytes[0] &= 0x0f;
+    bytes[2] &= 0x3f;
+    return bytes;
+  });
+
+  const bytes = new Uint8Array(16);
+  let remaining = time;
+  for (let i = 5; i >= 0; i--) {
+    bytes[i] = remaining % 256;
+    remaining = Math.floor(remaining / 256);
+  }
+  bytes[6] = 0x70 | (random[0] & 0x0f);
+  bytes[7] = random[1];
+  bytes[8] = 0x80 | (random[2] & 0x3f);
+  bytes.set(random.subarray(3), 9);
+
+  const hex = [...bytes].map(byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
@@ -3,9 +3,290 @@
  * Zero dependencies, pure TypeScript implementation
  */
 
-import type { SchemaDefinition, FieldType, QueryOptions, InferSchemaType } from './types';
+import type {
+  SchemaDefinition,
+  FieldType,
+  FieldDefinition,
+  FieldDescriptor,
+  QueryOptions,
+  Page,
+  QueryPlan,
+  WriteResult,
+  BulkWriteResult,
+  WhereClause,
+  IndexDefinition,
+  InferSchemaType,
+  InferInputType,
+  Migration,
+  AppliedMigration,
+  MigrationStatus,
+  IndexEntryIssue,
+  IndexCheckReport,
+  IndexRebuildResult,
+  HookName,
+  HookContext,
+  HookResult,
+  ModelHooks,
+  ChangeEvent,
+  AggregateSpec,
+  AggregateValues,
+  RelationDefinition,
+  ModelClass,
+  IncludedRecords,
+  IdStrategy,
+  IdGenerator,
+  CreateInput,
+  SearchQuery,
+} from './types';
+import {
+  encodeIndexValue,
+  encodeIndexTuple,
+  encodedSuccessor,
+  decodeIndexTuple,
+  encodeCursor,
+  decodeCursor,
+  CursorPosition,
+} from './encoding';
+import { WriteBatch, MAX_KEYS_PER_CALL } from './batch';
+import { uuidv4, ulid, uuidv7 } from './ids';
+import { tokenize, termFrequencies, bm25 } from './search';
 
 export * from './types';
+export { uuidv4, ulid, uuidv7 } from './ids';
+
+const WHERE_OPERATORS = new Set([
+  'eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'notIn', 'contains', 'startsWith',
+]);
+
+// Index keys read per storage.list() call when a query can stop early
+const INDEX_PAGE_SIZE = 128;
+
+// Records read per storage.list() call during a full table scan
+const SCAN_PAGE_SIZE = 1000;
+
+// Version of the index key layout; 2 stores one key per (value, id) pair
+const INDEX_LAYOUT_VERSION = 2;
+
+// Stored field holding a record's schema version; records without it are at version 1
+const SCHEMA_VERSION_FIELD = '_v';
+
+// Records upgraded per transaction by migrateAll()
+const MIGRATION_CHUNK_SIZE = 200;
+
+// Index keys the planner reads per scan when estimating how many records an index matches
+const PLAN_KEY_BUDGET = 1000;
+
+// Field delete() sets instead of removing the record, on models with soft delete enabled
+const SOFT_DELETE_FIELD = 'deletedAt';
+
+// Fields set on every write by models with timestamps or versioning enabled
+const CREATED_AT_FIELD = 'createdAt';
+const UPDATED_AT_FIELD = 'updatedAt';
+const VERSION_FIELD = 'version';
+
+// Field holding when a record expires, on models with expiry enabled
+const EXPIRES_AT_FIELD = 'expiresAt';
+
+// Expired records removed per transaction by sweepExpired(), and transactions per call
+const EXPIRY_BATCH_SIZE = 100;
+const EXPIRY_MAX_BATCHES = 10;
+
+// Cursor field of pages ranked by search relevance rather than a record field
+const RELEVANCE_FIELD = '$relevance';
+
+/**
+ * Bounds of an index range scan
+ */
+interface IndexRange {
+  lower?: { value: unknown; inclusive: boolean };
+  upper?: { value: unknown; inclusive: boolean };
+}
+
+/**
+ * An ordered walk over one index: a fixed equality prefix, then a range on the next field
+ */
+interface IndexScan {
+  fields: string[];
+  equals: unknown[];
+  range: IndexRange;
+  reverse: boolean;
+  /** Index entries (key, id) already read while planning, in scan order */
+  entries?: [string, string][];
+  /** Whether `entries` holds the whole scan rather than its first keys */
+  complete?: boolean;
+}
+
+/**
+ * One way of serving a query from an index: a scan per combination of `in` values
+ */
+interface IndexPath {
+  fields: string[];
+  scans: IndexScan[];
+  /** Records come back in the query's order without sorting */
+  sorted: boolean;
+  /** The scans enforce every where condition and after/before bound */
+  covers: boolean;
+  prefixLength: number;
+  ranged: boolean;
+}
+
+/**
+ * Saved position of an interrupted rebuildIndexes() run
+ */
+interface IndexRebuildProgress {
+  indexes: string[];
+  /** Backfilling entries from records, then sweeping each index for orphans */
+  phase: 'backfill' | 'sweep';
+  /** Position in `indexes` of the index being swept */
+  sweeping: number;
+  /** Last key handled in the current phase */
+  after?: string;
+}
+
+/**
+ * A planned query: an index path, a set of candidate ids, or neither for a full scan
+ */
+interface ExecutionPlan {
+  summary: QueryPlan;
+  path?: IndexPath;
+  candidateIds?: string[];
+}
+
+/**
+ * Running totals for one group of an aggregate() call, one slot per aggregate
+ */
+interface AggregateGroup {
+  /** The group's values of the groupBy fields */
+  values: Record<string, unknown>;
+  count: number;
+  totals: number[];
+  /** Non-null values summed into `totals` */
+  counts: number[];
+  /** Smallest or largest value seen, in index order */
+  extremes: unknown[];
+}
+
+/**
+ * Table-wide totals of the search index, for BM25's length normalisation
+ */
+interface SearchTotals {
+  /** Records with at least one indexed word */
+  documents: number;
+  /** Words across those records */
+  tokens: number;
+}
+
+/**
+ * Statistics a ranked search was scored with: the table totals and the number
+ * of records holding each search word, or for a prefix any word it expands to. Ranked cursors carry them, so later
+ * pages score records exactly as the first did, whatever was written since
+ */
+interface SearchStats extends SearchTotals {
+  matching: Record<string, number>;
+}
+
+/**
+ * A search result's relevance, with the statistics it was scored against
+ */
+interface SearchRank {
+  score: number;
+  stats: SearchStats;
+}
+
+/**
+ * Indexed words of one record
+ */
+interface SearchTerms {
+  frequencies: Map<string, number>;
+  length: number;
+}
+
+/**
+ * A delete whose hooks and onDelete rules have run, waiting to be staged,
+ * with the related records it cascades to and the ones it unlinks
+ */
+interface PlannedDelete {
+  model: DOModel<any>;
+  id: string;
+  existing: any;
+  visible: boolean;
+  related: ({ cascade: PlannedDelete } | { model: DOModel<any>; existing: any; updated: any })[];
+}
+
+// Records upgraded on read, mapped to their fields as stored, so writes can
+// clear the index and unique entries those stored values still hold
+const storedForms = new WeakMap<object, any>();
+
+// Change notifications waiting for the transaction that queued them to commit;
+// null once the transaction has been rolled back
+const pendingChanges = new WeakMap<DurableObjectTransaction, (() => void)[] | null>();
+
+// Models constructed on each storage, by table name, so relations reach the
+// instances that carry the application's hooks and subscriptions
+const registeredModels = new WeakMap<DurableObjectStorage, Map<string, DOModel<any>>>();
+
+// Relevance of records returned by a search, so the next page's cursor can resume after them
+const searchRanks = new WeakMap<object, SearchRank>();
+
+/**
+ * Copy of a record holding only the given fields
+ */
+function selectFields<T, K extends keyof T>(record: T, fields: readonly K[]): Pick<T, K> {
+  const selected = {} as Pick<T, K>;
+  for (const field of fields) {
+    if (record[field] !== undefined) selected[field] = record[field];
+  }
+  return selected;
+}
+
+/**
+ * Cursor resuming a ranked search just past a record it returned
+ */
+function relevanceCursor(record: any): string {
+  return encodeCursor({ field: RELEVANCE_FIELD, value: searchRanks.get(record), id: record.id });
+}
+
+/**
+ * Run work in a storage transaction, then deliver the change notifications it queued
+ */
+async function runTransaction<T>(
+  storage: DurableObjectStorage,
+  work: (txn: DurableObjectTransaction) => Promise<T>
+): Promise<T> {
+  const notifications: (() => void)[] = [];
+  const result = await storage.transaction(txn => {
+    pendingChanges.set(txn, notifications);
+    return work(txn);
+  });
+  notifications.forEach(notify => notify());
+  return result;
+}
+
+/**
+ * A change feed subscriber registered with subscribe()
+ */
+interface Subscription<T> {
+  filter: WhereClause<T>;
+  handler: (change: ChangeEvent<T>) => void | Promise<void>;
+  onError?: (error: unknown, change: ChangeEvent<T>) => void;
+}
+
+/**
+ * Thrown when update() is given an expectedVersion the stored record no longer has
+ */
+export class VersionConflictError extends Error {
+  readonly id: string;
+  readonly expectedVersion: number;
+  readonly actualVersion: number;
+
+  constructor(id: string, expectedVersion: number, actualVersion: number) {
+    super(`Record with id '${id}' is at version ${actualVersion}, expected ${expectedVersion}`);
+    this.name = 'VersionConflictError';
+    this.id = id;
+    this.expectedVersion = expectedVersion;
+    this.actualVersion = actualVersion;
+  }
+}
 
 /**
  * Base class for all DO models
@@ -13,13 +294,51 @@ export * from './types';
  */
 export abstract class DOModel<S extends SchemaDefinition> {
   protected abstract schema: S;
-  protected abstract indexes: (keyof InferSchemaType<S>)[];
+  protected abstract indexes: readonly IndexDefinition<InferSchemaType<S>>[];
+  protected unique: readonly IndexDefinition<InferSchemaType<S>>[] = [];
+  protected migrations: readonly Migration[] = [];
+  /** When true, delete() sets `deletedAt` and queries skip those records; the schema must declare it */
+  protected softDelete = false;
+  /** When true, `createdAt` and `updatedAt` are set on every write; the schema must declare them */
+  protected timestamps = false;
+  /** When true, `version` starts at 1 and grows by one on every write; the schema must declare it */
+  protected versioned = false;
+  /** When true, records are hidden once their `expiresAt` passes and removed by sweepExpired(); the schema must declare it */
+  protected expires = false;
+  /** Time to live in ms for new records created without an `expiresAt`; needs `expires` */
+  protected ttl: number | null = null;
+  /** Fields stored under their own keys, so queries that select() other fields never read them; cannot be indexed */
+  protected largeFields: readonly (keyof InferSchemaType<S>)[] = [];
+  /** How create() fills in a missing id; public so create() can make `id` optional in its input type */
+  readonly idStrategy: IdStrategy | null = null;
+  /** Related models by name, loaded with include() and enforced on delete(); public so include() can type its results */
+  readonly relations: Readonly<Record<string, RelationDefinition>> = {};
   protected storage: DurableObjectStorage;
   protected tableName: string;
+  private txn: DurableObjectTransaction | null = null;
+  // Shared with transaction-bound views, so storage is prepared once per model
+  private readonly setup = { done: false };
+  // Hooks registered with on(), also shared with transaction-bound views
+  private readonly hooks: { [K in HookName]?: ModelHooks<InferSchemaType<S>>[K][] } = {};
+  // Change feed subscribers, also shared with transaction-bound views
+  private readonly subscriptions = new Set<Subscription<InferSchemaType<S>>>();
+
+  // Lifecycle hooks; a subclass defines these to run them before hooks registered with on()
+  protected beforeValidate?(record: InferSchemaType<S>, context: HookContext): HookResult<InferSchemaType<S>>;
+  protected beforeCreate?(record: InferSchemaType<S>, context: HookContext): HookResult<InferSchemaType<S>>;
+  protected afterCreate?(record: InferSchemaType<S>, context: HookContext): HookResult<void>;
+  protected beforeUpdate?(record: InferSchemaType<S>, previous: InferSchemaType<S>, context: HookContext): HookResult<InferSchemaType<S>>;
+  protected afterUpdate?(record: InferSchemaType<S>, previous: InferSchemaType<S>, context: HookContext): HookResult<void>;
+  protected beforeDelete?(record: InferSchemaType<S>, context: HookContext): HookResult<void>;
+  protected afterDelete?(record: InferSchemaType<S>, context: HookContext): HookResult<void>;
 
   constructor(storage: DurableObjectStorage, tableName?: string) {
     this.storage = storage;
     this.tableName = tableName || this.constructor.name.toLowerCase();
+
+    const models = registeredModels.get(storage) ?? new Map<string, DOModel<any>>();
+    models.set(this.tableName, this);
+    registeredModels.set(storage, models);
   }
 
   /**
@@ -63,328 +382,3266 @@ export abstract class DOModel<S extends SchemaDefinition> {
   }
 
   /**
-   * Validate an entire record against the schema
+   * Check a value against the constraints declared on its field
    */
-  private validateSchema(data: any): void {
-    // Check for missing required fields
-    for (const [fieldName, fieldType] of Object.entries(this.schema)) {
-      if (!(fieldName in data)) {
-        throw new Error(`Missing required field: ${fieldName}`);
+  private validateConstraints(value: any, field: FieldDescriptor, fieldName: string): void {
+    if (field.enum && !field.enum.includes(value)) {
+      throw new Error(
+        `Field '${fieldName}' must be one of ${field.enum.join(', ')}, got ${JSON.stringify(value)}`
+      );
+    }
+
+    if (typeof value === 'number') {
+      if (field.integer && !Number.isInteger(value)) {
+        throw new Error(`Field '${fieldName}' must be an integer, got ${value}`);
+      }
+      if (field.min !== undefined && value < field.min) {
+        throw new Error(`Field '${fieldName}' must be at least ${field.min}, got ${value}`);
+      }
+      if (field.max !== undefined && value > field.max) {
+        throw new Error(`Field '${fieldName}' must be at most ${field.max}, got ${value}`);
       }
-      this.validateField(data[fieldName], fieldType, fieldName);
     }
-  }
 
-  /**
-   * Generate storage key for a record
-   */
-  private getRecordKey(id: string): string {
-    return `${this.tableName}:${id}`;
+    if (typeof value === 'string') {
+      if (field.minLength !== undefined && value.length < field.minLength) {
+        throw new Error(`Field '${fieldName}' must be at least ${field.minLength} characters, got ${value.length}`);
+      }
+      if (field.maxLength !== undefined && value.length > field.maxLength) {
+        throw new Error(`Field '${fieldName}' must be at most ${field.maxLength} characters, got ${value.length}`);
+      }
+      if (field.pattern && value.search(field.pattern) === -1) {
+        throw new Error(`Field '${fieldName}' must match ${field.pattern}`);
+      }
+    }
+
+    if (Array.isArray(value)) {
+      if (field.minItems !== undefined && value.length < field.minItems) {
+        throw new Error(`Field '${fieldName}' must have at least ${field.minItems} items, got ${value.length}`);
+      }
+      if (field.maxItems !== undefined && value.length > field.maxItems) {
+        throw new Error(`Field '${fieldName}' must have at most ${field.maxItems} items, got ${value.length}`);
+      }
+    }
+
+    if (field.validate) {
+      const result = field.validate(value);
+      if (result !== true) {
+        throw new Error(
+          typeof result === 'string' ? `Field '${fieldName}' ${result}` : `Field '${fieldName}' failed validation`
+        );
+      }
+    }
   }
 
   /**
-   * Generate storage key for an index
+   * Normalize a field definition to its descriptor form
    */
-  private getIndexKey(field: string, value: any): string {
-    const normalizedValue = value instanceof Date ? value.toISOString() : String(value);
-    return `index:${this.tableName}:${field}:${normalizedValue}`;
+  private describeField(definition: FieldDefinition): FieldDescriptor {
+    return typeof definition === 'string' ? { type: definition } : definition;
   }
 
   /**
-   * Get all index entry keys for a given field
+   * Validate an entire record against the schema
    */
-  private getIndexPrefix(field: string): string {
-    return `index:${this.tableName}:${field}:`;
+  private validateSchema(data: any): void {
+    this.validateFields(data, this.schema, '');
   }
 
   /**
-   * Serialize a value for storage (convert Dates to ISO strings)
+   * Validate the fields of a (possibly nested) object against a schema
    */
-  private serialize(data: any): any {
-    const serialized: any = {};
-    for (const [key, value] of Object.entries(data)) {
-      if (value instanceof Date) {
-        serialized[key] = value.toISOString();
-      } else {
-        serialized[key] = value;
+  private validateFields(data: any, schema: SchemaDefinition, path: string): void {
+    for (const [fieldName, definition] of Object.entries(schema)) {
+      const field = this.describeField(definition);
+      const fieldPath = path ? `${path}.${fieldName}` : fieldName;
+      const value = data[fieldName];
+
+      // Check for missing required fields
+      if (value === undefined) {
+        if (field.optional) continue;
+        throw new Error(`Missing required field: ${fieldPath}`);
       }
+
+      this.validateValue(value, field, fieldPath);
     }
-    return serialized;
   }
 
   /**
-   * Deserialize a value from storage (convert ISO strings back to Dates)
+   * Validate a single value, recursing into nested objects and array items
    */
-  private deserialize(data: any): InferSchemaType<S> {
-    const deserialized: any = {};
-    for (const [key, value] of Object.entries(data)) {
-      const fieldType = this.schema[key];
-      if (fieldType === 'date' && typeof value === 'string') {
-        deserialized[key] = new Date(value);
-      } else {
-        deserialized[key] = value;
-      }
+  private validateValue(value: any, field: FieldDescriptor, path: string): void {
+    if (value === null) {
+      if (field.nullable) return;
+      throw new Error(`Field '${path}' must be a ${field.type}, got null`);
+    }
+
+    this.validateField(value, field.type, path);
+    this.validateConstraints(value, field, path);
+
+    if (field.type === 'object' && field.schema) {
+      this.validateFields(value, field.schema, path);
+    }
+
+    if (field.type === 'array' && field.items) {
+      const items = this.describeField(field.items);
+      value.forEach((item: any, index: number) => {
+        this.validateValue(item, items, `${path}[${index}]`);
+      });
     }
-    return deserialized as InferSchemaType<S>;
   }
 
   /**
-   * Update indexes for a record
+   * Fill absent fields from their schema defaults
    */
-  private async updateIndexes(id: string, data: InferSchemaType<S>): Promise<void> {
-    for (const indexField of this.indexes) {
-      const fieldValue = data[indexField];
-      const indexKey = this.getIndexKey(String(indexField), fieldValue);
-      
-      // Get existing IDs in this index
-      const existingIds = await this.storage.get<string[]>(indexKey) || [];
-      
-      // Add ID if not already present
-      if (!existingIds.includes(id)) {
-        existingIds.push(id);
-        await this.storage.put(indexKey, existingIds);
+  private applyDefaults(data: InferInputType<S>): InferSchemaType<S> {
+    const filled: any = { ...data };
+    for (const [fieldName, definition] of Object.entries(this.schema)) {
+      const field = this.describeField(definition);
+      if (filled[fieldName] === undefined && 'default' in field) {
+        filled[fieldName] = typeof field.default === 'function' ? field.default() : field.default;
       }
     }
+    return filled;
   }
 
   /**
-   * Remove record ID from indexes
+   * Generate storage key for a record
    */
-  private async removeFromIndexes(id: string, data: InferSchemaType<S>): Promise<void> {
-    for (const indexField of this.indexes) {
-      const fieldValue = data[indexField];
-      const indexKey = this.getIndexKey(String(indexField), fieldValue);
-      
-      // Get existing IDs and remove this one
-      const existingIds = await this.storage.get<string[]>(indexKey) || [];
-      const filteredIds = existingIds.filter(existingId => existingId !== id);
-      
-      if (filteredIds.length > 0) {
-        await this.storage.put(indexKey, filteredIds);
-      } else {
-        await this.storage.delete(indexKey);
-      }
-    }
+  private getRecordKey(id: string): string {
+    return `${this.tableName}:${id}`;
   }
 
   /**
-   * Create a new record
+   * Generate storage key for a large field of a record
    */
-  async create(data: InferSchemaType<S>): Promise<InferSchemaType<S>> {
-    // Validate schema
-    this.validateSchema(data);
+  private getFieldKey(field: string, id: string): string {
+    return `field:${this.tableName}:${field}:${id}`;
+  }
 
-    // Check if record already exists
-    const id = (data as any).id;
-    if (!id) {
-      throw new Error('Record must have an id field');
-    }
+  /**
+   * Declared large fields, checked against the schema and indexes
+   */
+  private get separateFields(): string[] {
+    const fields = this.largeFields.map(String);
+    if (fields.length === 0) return fields;
 
-    const key = this.getRecordKey(id);
-    const existing = await this.storage.get(key);
-    if (existing) {
-      throw new Error(`Record with id '${id}' already exists`);
+    const indexed = new Set([...this.indexFields, ...this.uniqueFields].flat());
+    for (const field of fields) {
+      if (field === 'id' || !this.schema[field]) {
+        throw new Error(`Large field '${field}' is not a field of table '${this.tableName}'`);
+      }
+      if (indexed.has(field)) {
+        throw new Error(`Large field '${field}' cannot be indexed or unique`);
+      }
     }
-
-    // Serialize and store
-    const serialized = this.serialize(data);
-    await this.storage.put(key, serialized);
-
-    // Update indexes
-    await this.updateIndexes(id, data);
-
-    return data;
+    return fields;
   }
 
   /**
-   * Find a record by ID
+   * Fields marked searchable, checked to be string fields
    */
-  async find(id: string): Promise<InferSchemaType<S> | null> {
-    const key = this.getRecordKey(id);
-    const data = await this.storage.get(key);
-    
-    if (!data) {
-      return null;
+  private get searchFields(): string[] {
+    const fields = Object.keys(this.schema).filter(field => this.describeField(this.schema[field]).searchable);
+    for (const field of fields) {
+      if (this.describeField(this.schema[field]).type !== 'string') {
+        throw new Error(`Searchable field '${field}' must be a string field`);
+      }
     }
-
-    return this.deserialize(data);
+    return fields;
   }
 
   /**
-   * Update a record
+   * Normalize index declarations to field lists (single-field entries have one field)
    */
-  async update(id: string, updates: Partial<InferSchemaType<S>>): Promise<InferSchemaType<S>> {
-    const existing = await this.find(id);
-    if (!existing) {
-      throw new Error(`Record with id '${id}' not found`);
-    }
-
-    // Merge updates
-    const updated = { ...existing, ...updates };
-
-    // Validate the complete record
-    this.validateSchema(updated);
-
-    // Remove old indexes if indexed fields changed
-    const indexedFieldsChanged = this.indexes.some(field => 
-      field in updates && updates[field] !== existing[field]
+  private toFieldLists(definitions: readonly IndexDefinition<InferSchemaType<S>>[]): string[][] {
+    return definitions.map(definition =>
+      Array.isArray(definition) ? definition.map(String) : [String(definition)]
     );
+  }
 
-    if (indexedFieldsChanged) {
-      await this.removeFromIndexes(id, existing);
+  /**
+   * Declared indexes as field lists
+   */
+  private get indexFields(): string[][] {
+    const fieldLists = this.toFieldLists(this.indexes);
+    // Models with expiry always index expiresAt, so sweeps find expired records in order
+    if (this.expiring && !fieldLists.some(fields => fields.length === 1 && fields[0] === EXPIRES_AT_FIELD)) {
+      fieldLists.push([EXPIRES_AT_FIELD]);
     }
+    return fieldLists;
+  }
 
-    // Store updated record
-    const serialized = this.serialize(updated);
-    await this.storage.put(this.getRecordKey(id), serialized);
+  /**
+   * Declared unique constraints as field lists
+   */
+  private get uniqueFields(): string[][] {
+    return this.toFieldLists(this.unique);
+  }
 
-    // Update indexes with new values
-    if (indexedFieldsChanged) {
-      await this.updateIndexes(id, updated);
+  /**
+   * Generate storage key for a unique constraint entry
+   * Returns null when a covered field is absent or null, or for a soft-deleted
+   * record - those never conflict
+   */
+  private getUniqueKey(fields: string[], data: any): string | null {
+    if (this.isDeleted(data)) {
+      return null;
     }
-
-    return updated;
+    const values = fields.map(field => data[field]);
+    if (values.some(value => value === undefined || value === null)) {
+      return null;
+    }
+    return `unique:${this.tableName}:${fields.join('+')}:` + encodeIndexTuple(values);
   }
 
   /**
-   * Delete a record
+   * Generate storage key for an index entry
    */
-  async delete(id: string): Promise<boolean> {
-    const existing = await this.find(id);
-    if (!existing) {
-      return false;
-    }
+  private getIndexKey(fields: string[], values: unknown[]): string {
+    return this.getIndexPrefix(fields) + encodeIndexTuple(values);
+  }
 
-    // Remove from indexes
-    await this.removeFromIndexes(id, existing);
+  /**
+   * Get all index entry keys for a given index
+   */
+  private getIndexPrefix(fields: string[]): string {
+    return `index:${this.tableName}:${fields.join('+')}:`;
+  }
 
-    // Delete record
-    await this.storage.delete(this.getRecordKey(id));
+  /**
+   * Index entry key for a record: the index key of its values followed by its id,
+   * or null if a field the index covers is absent
+   */
+  private getRecordIndexKey(fields: string[], data: InferSchemaType<S>): string | null {
+    const values = fields.map(field => (data as any)[field]);
+    if (values.includes(undefined)) return null;
+    return this.getIndexKey(fields, values) + encodeIndexValue((data as any).id);
+  }
 
-    return true;
+  /**
+   * Get all search index keys, those of one word, or with `partial` those of
+   * every word starting with it; each key ends with the record id
+   */
+  private getSearchPrefix(term?: string, partial = false): string {
+    const prefix = `search:${this.tableName}:`;
+    if (term === undefined) return prefix;
+    // Without its terminator, a word's encoding prefixes the encoding of every longer word
+    const encoded = encodeIndexValue(term);
+    return prefix + (partial ? encoded.slice(0, -1) : encoded);
   }
 
   /**
-   * Query builder - returns all matching records
+   * Generate storage key for table metadata
    */
-  async query(options: QueryOptions<InferSchemaType<S>> = {}): Promise<InferSchemaType<S>[]> {
-    let candidateIds: string[] = [];
+  private getMetaKey(name: string): string {
+    return `meta:${this.tableName}:${name}`;
+  }
 
-    // Use indexes if where clause matches an indexed field
-    if (options.where) {
-      const whereEntries = Object.entries(options.where);
-      if (whereEntries.length > 0) {
-        const [field, value] = whereEntries[0];
-        
-        // Check if this field is indexed
-        if (this.indexes.includes(field as any)) {
-          const indexKey = this.getIndexKey(field, value);
-          candidateIds = await this.storage.get<string[]>(indexKey) || [];
-        }
+  /**
+   * Serialize a value for storage (convert Dates to ISO strings)
+   */
+  private serialize(data: any, schema: SchemaDefinition = this.schema): any {
+    const serialized: any = {};
+    for (const [key, value] of Object.entries(data)) {
+      if (value !== undefined) {
+        serialized[key] = this.serializeValue(value, schema[key]);
       }
     }
+    return serialized;
+  }
 
-    // If no index was used, scan all records (slower)
-    if (candidateIds.length === 0 && !options.where) {
-      const prefix = `${this.tableName}:`;
-      const allKeys = await this.storage.list({ prefix });
-      candidateIds = Array.from(allKeys.keys()).map(key => 
-        key.toString().replace(prefix, '')
-      );
-    }
-
-    // Load all candidate records
-    const records: InferSchemaType<S>[] = [];
-    for (const id of candidateIds) {
-      const record = await this.find(id);
-      if (record) {
-        records.push(record);
-      }
+  private serializeValue(value: any, definition?: FieldDefinition): any {
+    if (value instanceof Date) {
+      return value.toISOString();
     }
-
-    // Apply filters
-    let filtered = records;
-
-    // Filter by where clause (additional fields not covered by index)
-    if (options.where) {
-      filtered = filtered.filter(record => {
-        for (const [key, value] of Object.entries(options.where!)) {
-          if ((record as any)[key] !== value) {
-            return false;
-          }
-        }
-        return true;
-      });
+    if (value === null || !definition) {
+      return value;
     }
 
-    // Filter by date range (after/before)
-    if (options.after || options.before) {
-      filtered = filtered.filter(record => {
-        // Find date field in schema
-        for (const [field, type] of Object.entries(this.schema)) {
-          if (type === 'date') {
-            const dateValue = (record as any)[field];
-            if (dateValue instanceof Date) {
-              if (options.after && dateValue <= options.after) return false;
-              if (options.before && dateValue >= options.before) return false;
-            }
-          }
-        }
-        return true;
-      });
+    const field = this.describeField(definition);
+    if (field.schema && typeof value === 'object' && !Array.isArray(value)) {
+      return this.serialize(value, field.schema);
     }
-
-    // Sort
-    if (options.orderBy) {
-      const { field, direction } = options.orderBy;
-      filtered.sort((a, b) => {
-        const aVal = (a as any)[field];
-        const bVal = (b as any)[field];
-        
-        let comparison = 0;
-        if (aVal < bVal) comparison = -1;
-        if (aVal > bVal) comparison = 1;
-        
-        return direction === 'desc' ? -comparison : comparison;
-      });
+    if (field.items && Array.isArray(value)) {
+      return value.map(item => this.serializeValue(item, field.items));
     }
+    return value;
+  }
 
-    // Apply limit
-    if (options.limit) {
-      filtered = filtered.slice(0, options.limit);
+  /**
+   * Deserialize a value from storage (convert ISO strings back to Dates)
+   */
+  private deserialize(data: any): InferSchemaType<S> {
+    const version = data[SCHEMA_VERSION_FIELD] ?? 1;
+    if (version >= this.schemaVersion) {
+      return this.deserializeStored(data);
     }
 
-    return filtered;
+    // Upgrade older records on read; they are rewritten on their next write
+    const { [SCHEMA_VERSION_FIELD]: _, ...fields } = data;
+    const record = this.deserializeFields(this.upgradeRecord(fields, version), this.schema);
+    storedForms.set(record, this.deserializeStored(data));
+    return record;
   }
 
   /**
-   * Query builder with fluent API
+   * Deserialize a record's fields as stored, without upgrading them
+   * Index and unique entries always reflect this form
    */
-  where(conditions: Partial<InferSchemaType<S>>): QueryBuilder<S> {
-    return new QueryBuilder(this, { where: conditions });
+  private deserializeStored(data: any): InferSchemaType<S> {
+    const { [SCHEMA_VERSION_FIELD]: _, ...fields } = data;
+    return this.deserializeFields(fields, this.schema) as InferSchemaType<S>;
   }
 
   /**
-   * Get all records
+   * Serialize a record for storage, stamped with the schema version once the model has migrations
    */
-  async all(): Promise<InferSchemaType<S>[]> {
-    return this.query();
+  private serializeRecord(data: InferSchemaType<S>): any {
+    const serialized = this.serialize(data);
+    if (this.schemaVersion > 1) {
+      serialized[SCHEMA_VERSION_FIELD] = this.schemaVersion;
+    }
+    return serialized;
   }
 
   /**
-   * Count all records
+   * A record's fields as stored, for releasing the index and unique entries they hold
    */
-  async count(): Promise<number> {
-    const prefix = `${this.tableName}:`;
-    const allKeys = await this.storage.list({ prefix });
-    return allKeys.size;
+  private storedForm(record: InferSchemaType<S>): InferSchemaType<S> {
+    return storedForms.get(record) ?? record;
   }
-}
 
-/**
+  /**
+   * Stage a record's write: large fields under their own keys, the rest under the record key
+   */
+  private storeRecord(id: string, data: InferSchemaType<S>, batch: WriteBatch): void {
+    const serialized = this.serializeRecord(data);
+    for (const field of this.separateFields) {
+      const key = this.getFieldKey(field, id);
+      if (serialized[field] === undefined) {
+        batch.delete(key);
+      } else {
+        batch.put(key, serialized[field]);
+        delete serialized[field];
+      }
+    }
+    batch.put(this.getRecordKey(id), serialized);
+  }
+
+  /**
+   * Copies of stored records with the given large fields read back from their keys
+   * Records at an older schema version get every large field, so migrations
+   * see them; records written before a field was made large still hold it inline.
+   * Reads go through `batch` when given, seeing writes staged in it
+   */
+  private async withLargeFields(records: any[], fields: string[], batch?: WriteBatch): Promise<any[]> {
+    const wanted = records.map(data =>
+      ((data[SCHEMA_VERSION_FIELD] ?? 1) < this.schemaVersion ? this.separateFields : fields)
+        .filter(field => !(field in data))
+    );
+    const keys = records.flatMap((data, i) => wanted[i].map(field => this.getFieldKey(field, data.id)));
+    if (keys.length === 0) return records;
+
+    const values = new Map<string, unknown>();
+    if (batch) {
+      await batch.prefetch(keys);
+      for (const key of keys) {
+        values.set(key, await batch.get(key));
+      }
+    } else {
+      for (let i = 0; i < keys.length; i += MAX_KEYS_PER_CALL) {
+        for (const [key, value] of await this.store.get(keys.slice(i, i + MAX_KEYS_PER_CALL))) {
+          values.set(key, value);
+        }
+      }
+    }
+
+    return records.map((data, i) => {
+      const merged = { ...data };
+      for (const field of wanted[i]) {
+        const value = values.get(this.getFieldKey(field, data.id));
+        if (value !== undefined) merged[field] = value;
+      }
+      return merged;
+    });
+  }
+
+  /**
+   * Large fields a query has to read: those it selects, filters or sorts on, or all of them without select
+   */
+  private queryLargeFields(options: QueryOptions<InferSchemaType<S>>): string[] {
+    if (!options.select) return this.separateFields;
+
+    const used = new Set([...options.select.map(String), ...Object.keys(options.where || {})]);
+    if (options.orderBy) used.add(String(options.orderBy.field));
+    if (options.after || options.before) this.timeFields.forEach(field => used.add(field));
+    if (this.softDelete) used.add(SOFT_DELETE_FIELD);
+    return this.separateFields.filter(field => used.has(field));
+  }
+
+  private deserializeFields(data: any, schema: SchemaDefinition): any {
+    const deserialized: any = {};
+    for (const [key, value] of Object.entries(data)) {
+      deserialized[key] = this.deserializeValue(value, schema[key]);
+    }
+    return deserialized;
+  }
+
+  private deserializeValue(value: any, definition?: FieldDefinition): any {
+    if (value === null || !definition) {
+      return value;
+    }
+
+    const field = this.describeField(definition);
+    if (field.type === 'date' && typeof value === 'string') {
+      return new Date(value);
+    }
+    if (field.schema && typeof value === 'object' && !Array.isArray(value)) {
+      return this.deserializeFields(value, field.schema);
+    }
+    if (field.items && Array.isArray(value)) {
+      return value.map(item => this.deserializeValue(item, field.items));
+    }
+    return value;
+  }
+
+  /**
+   * Storage handle for the current unit of work
+   * Resolves to the open transaction when the model is bound to one
+   */
+  private get store(): DurableObjectStorage | DurableObjectTransaction {
+    return this.txn || this.storage;
+  }
+
+  /**
+   * Return a view of this model bound to an open transaction
+   * @internal Used by Transaction.bind()
+   */
+  withTransaction(txn: DurableObjectTransaction): this {
+    const bound = Object.create(this) as this;
+    bound.txn = txn;
+    return bound;
+  }
+
+  /**
+   * Run a unit of work atomically
+   * Reuses the surrounding transaction if the model is already bound to one
+   */
+  private async atomic<T>(work: (model: this) => Promise<T>): Promise<T> {
+    if (this.txn) {
+      return work(this);
+    }
+    return runTransaction(this.storage, txn => work(this.withTransaction(txn)));
+  }
+
+  /**
+   * Run a unit of work atomically, staging its writes in a batch that is
+   * flushed as multi-key put()/delete() calls once the work succeeds
+   */
+  private async batched<T>(work: (model: this, batch: WriteBatch) => Promise<T>): Promise<T> {
+    await this.prepareStorage();
+    return this.atomic(async model => {
+      const batch = new WriteBatch(model.store);
+      const result = await work(model, batch);
+      await batch.flush();
+      await batch.settle();
+      return result;
+    });
+  }
+
+  /**
+   * Move a record's index entries; pass null to add a new record or remove a deleted one
+   * Each entry is its own key, so no existing entry is read or rewritten
+   */
+  private updateIndexes(
+    id: string,
+    data: InferSchemaType<S> | null,
+    previous: InferSchemaType<S> | null,
+    batch: WriteBatch
+  ): void {
+    for (const fields of this.indexFields) {
+      const indexKey = data ? this.getRecordIndexKey(fields, data) : null;
+      const previousKey = previous ? this.getRecordIndexKey(fields, previous) : null;
+      if (indexKey === previousKey) continue;
+
+      if (previousKey) {
+        batch.delete(previousKey);
+      }
+      if (indexKey) {
+        batch.put(indexKey, id);
+      }
+    }
+  }
+
+  /**
+   * Words a record contributes to the search index
+   */
+  private searchTerms(record: InferSchemaType<S>): SearchTerms {
+    const tokens = this.searchFields.flatMap(field => {
+      const value = (record as any)[field];
+      return typeof value === 'string' ? tokenize(value) : [];
+    });
+    return { frequencies: termFrequencies(tokens), length: tokens.length };
+  }
+
+  /**
+   * Move a record's search entries and the table's search totals; pass null
+   * to add a new record or remove a deleted one
+   * Each word of a record is its own key, holding the word's count and the record's length
+   */
+  private async updateSearchIndex(
+    id: string,
+    data: InferSchemaType<S> | null,
+    previous: InferSchemaType<S> | null,
+    batch: WriteBatch
+  ): Promise<void> {
+    if (this.searchFields.length === 0) return;
+
+    const empty: SearchTerms = { frequencies: new Map(), length: 0 };
+    const next = data ? this.searchTerms(data) : empty;
+    const before = previous ? this.searchTerms(previous) : empty;
+    if (
+      next.length === before.length &&
+      [...next.frequencies].every(([term, count]) => before.frequencies.get(term) === count)
+    ) {
+      return;
+    }
+
+    const idKey = encodeIndexValue(id);
+    for (const term of before.frequencies.keys()) {
+      if (!next.frequencies.has(term)) {
+        batch.delete(this.getSearchPrefix(term) + idKey);
+      }
+    }
+    // Every entry holds the record's length, so all of them are rewritten
+    for (const [term, count] of next.frequencies) {
+      batch.put(this.getSearchPrefix(term) + idKey, [count, next.length]);
+    }
+
+    const totalsKey = this.getMetaKey('searchTotals');
+    const totals = await batch.get<SearchTotals>(totalsKey) ?? { documents: 0, tokens: 0 };
+    batch.put(totalsKey, {
+      documents: totals.documents + Math.sign(next.length) - Math.sign(before.length),
+      tokens: totals.tokens + next.length - before.length,
+    });
+  }
+
+  /**
+   * Unique keys a record claims, for prefetching before a bulk write
+   */
+  private getRecordUniqueKeys(data: InferSchemaType<S>): string[] {
+    const keys: string[] = [];
+    for (const fields of this.uniqueFields) {
+      const uniqueKey = this.getUniqueKey(fields, data);
+      if (uniqueKey) keys.push(uniqueKey);
+    }
+    return keys;
+  }
+
+  /**
+   * Claim a record's unique keys, rejecting values another record already holds
+   * On update, pass the previous record so keys it no longer needs are released.
+   * Every constraint is checked before any key is written
+   */
+  private async writeUniqueKeys(
+    id: string,
+    data: InferSchemaType<S>,
+    previous: InferSchemaType<S> | null,
+    batch: WriteBatch
+  ): Promise<void> {
+    const changes: { uniqueKey: string | null; previousKey: string | null }[] = [];
+
+    for (const fields of this.uniqueFields) {
+      const uniqueKey = this.getUniqueKey(fields, data);
+      const previousKey = previous ? this.getUniqueKey(fields, previous) : null;
+      if (uniqueKey === previousKey) continue;
+
+      if (uniqueKey) {
+        const ownerId = await batch.get<string>(uniqueKey);
+        if (ownerId !== undefined && ownerId !== id && !(await this.releasesUniqueKeys(ownerId, batch))) {
+          const description = fields
+            .map(field => {
+              const value = (data as any)[field];
+              return `${field} '${value instanceof Date ? value.toISOString() : value}'`;
+            })
+            .join(' and ');
+          throw new Error(`Record with ${description} already exists`);
+        }
+      }
+      changes.push({ uniqueKey, previousKey });
+    }
+
+    for (const { uniqueKey, previousKey } of changes) {
+      if (previousKey) {
+        batch.delete(previousKey);
+      }
+      if (uniqueKey) {
+        batch.put(uniqueKey, id);
+      }
+    }
+  }
+
+  /**
+   * Whether the record a unique key points at no longer holds it: it is gone
+   * or soft-deleted (soft deletes once kept their keys), or it has expired, in
+   * which case it is removed
+   */
+  private async releasesUniqueKeys(ownerId: string, batch: WriteBatch): Promise<boolean> {
+    const owner = await this.findStaged(ownerId, batch);
+    if (!owner || this.isDeleted(owner)) {
+      return true;
+    }
+    return this.removeExpired(ownerId, batch);
+  }
+
+  /**
+   * Release a record's unique keys
+   */
+  private removeUniqueKeys(data: InferSchemaType<S>, batch: WriteBatch): void {
+    for (const fields of this.uniqueFields) {
+      const uniqueKey = this.getUniqueKey(fields, data);
+      if (uniqueKey) {
+        batch.delete(uniqueKey);
+      }
+    }
+  }
+
+  /**
+   * Register a lifecycle hook; returns a function that removes it
+   * Hooks run in registration order, after a hook defined by the subclass
+   */
+  on<K extends HookName>(name: K, hook: ModelHooks<InferSchemaType<S>>[K]): () => void {
+    const hooks = (this.hooks[name] ||= []) as ModelHooks<InferSchemaType<S>>[K][];
+    hooks.push(hook);
+    return () => {
+      const index = hooks.indexOf(hook);
+      if (index !== -1) hooks.splice(index, 1);
+    };
+  }
+
+  /**
+   * Whether the subclass or on() supplies a hook
+   */
+  private hasHooks(name: HookName): boolean {
+    return typeof this[name] === 'function' || (this.hooks[name]?.length ?? 0) > 0;
+  }
+
+  /**
+   * Run the hooks for a lifecycle event in order, inside the current transaction
+   * A hook may change the record in place or return a replacement, which later
+   * hooks and the write receive; throwing aborts the write
+   */
+  private async runHooks(
+    name: HookName,
+    operation: HookContext['operation'],
+    record: InferSchemaType<S>,
+    previous?: InferSchemaType<S>
+  ): Promise<InferSchemaType<S>> {
+    if (!this.hasHooks(name)) {
+      return record;
+    }
+
+    const context: HookContext = { operation, transaction: new Transaction(this.txn!) };
+    const hooks: Function[] = [...(this.hooks[name] || [])];
+    if (typeof this[name] === 'function') {
+      hooks.unshift(this[name]!);
+    }
+
+    for (const hook of hooks) {
+      const args = previous === undefined ? [record, context] : [record, previous, context];
+      const result = await hook.apply(this, args);
+      if (result && typeof result === 'object') {
+        record = result;
+      }
+    }
+    return record;
+  }
+
+  /**
+   * Subscribe to changes to records matching a filter; returns a function that unsubscribes
+   * Changes are delivered once their transaction commits, in write order. An
+   * update is delivered when the record matches the filter before or after it.
+   * Errors thrown or rejected by the handler go to `onError`, if given
+   */
+  subscribe(
+    filter: WhereClause<InferSchemaType<S>>,
+    handler: (change: ChangeEvent<InferSchemaType<S>>) => void | Promise<void>,
+    options: { onError?: (error: unknown, change: ChangeEvent<InferSchemaType<S>>) => void } = {}
+  ): () => void {
+    const subscription = { filter, handler, onError: options.onError };
+    this.subscriptions.add(subscription);
+    return () => {
+      this.subscriptions.delete(subscription);
+    };
+  }
+
+  /**
+   * Queue a change for subscribers, to be delivered when the current transaction commits
+   */
+  private publish(change: ChangeEvent<InferSchemaType<S>>): void {
+    if (this.subscriptions.size === 0) {
+      return;
+    }
+    const pending = this.txn ? pendingChanges.get(this.txn) : undefined;
+    if (pending === null) {
+      return;
+    }
+
+    const deliver = () => {
+      for (const { filter, handler, onError } of [...this.subscriptions]) {
+        const matches = [change.before, change.after].some(record =>
+          record !== null && this.matchesWhere(record, filter)
+        );
+        if (!matches) continue;
+
+        // The change is committed either way, so a failing subscriber only hears about it
+        const fail = (error: unknown) => onError?.(error, change);
+        try {
+          Promise.resolve(handler(change)).catch(fail);
+        } catch (error) {
+          fail(error);
+        }
+      }
+    };
+
+    if (pending) {
+      pending.push(deliver);
+    } else {
+      deliver();
+    }
+  }
+
+  /**
+   * Check the schema declares a field the model manages, with the type it needs
+   */
+  private requireManagedField(field: string, type: FieldType, option: string): void {
+    const definition = this.schema[field];
+    if (!definition || this.describeField(definition).type !== type) {
+      throw new Error(`Option '${option}' requires a ${type} field '${field}'`);
+    }
+  }
+
+  /**
+   * Managed field values for a record being written; pass the stored record for updates
+   */
+  private stamp(previous: InferSchemaType<S> | null): Record<string, unknown> {
+    const values: Record<string, unknown> = {};
+    if (this.timestamps) {
+      this.requireManagedField(CREATED_AT_FIELD, 'date', 'timestamps');
+      this.requireManagedField(UPDATED_AT_FIELD, 'date', 'timestamps');
+      const now = new Date();
+      values[CREATED_AT_FIELD] = previous ? (previous as any)[CREATED_AT_FIELD] ?? now : now;
+      values[UPDATED_AT_FIELD] = now;
+    }
+    if (this.versioned) {
+      this.requireManagedField(VERSION_FIELD, 'number', 'versioned');
+      values[VERSION_FIELD] = previous ? ((previous as any)[VERSION_FIELD] ?? 0) + 1 : 1;
+    }
+    return values;
+  }
+
+  /**
+   * Throw a VersionConflictError unless a record is at the expected version
+   */
+  private checkVersion(record: InferSchemaType<S>, expectedVersion: number): void {
+    if (!this.versioned) {
+      throw new Error(`Versioning is not enabled for table '${this.tableName}'`);
+    }
+    const actual = (record as any)[VERSION_FIELD] ?? 0;
+    if (actual !== expectedVersion) {
+      throw new VersionConflictError((record as any).id, expectedVersion, actual);
+    }
+  }
+
+  /**
+   * Fill defaults and validate a record about to be created
+   */
+  private async prepareRecord(input: InferInputType<S>, batch: WriteBatch, ttl?: number): Promise<InferSchemaType<S>> {
+    const filled: any = { ...this.applyDefaults(input), ...this.stamp(null) };
+    if (filled.id === undefined && this.idStrategy !== null) {
+      filled.id = await this.generateId(this.idStrategy, filled, batch);
+    }
+
+    // An explicit ttl wins; the model's applies to records without an expiresAt
+    if (ttl === undefined && filled[EXPIRES_AT_FIELD] == null && this.ttl !== null) {
+      ttl = this.ttl;
+    }
+    if (ttl !== undefined) {
+      if (!this.expiring) {
+        throw new Error(`Expiry is not enabled for table '${this.tableName}'`);
+      }
+      filled[EXPIRES_AT_FIELD] = new Date(Date.now() + ttl);
+    }
+    const data = await this.runHooks('beforeValidate', 'create', filled);
+    this.validateSchema(data);
+
+    if (!(data as any).id) {
+      throw new Error('Record must have an id field');
+    }
+    return data;
+  }
+
+  /**
+   * New id for a record created without one
+   * Counters are kept in table metadata and advance in the write's transaction
+   */
+  private async generateId(strategy: IdStrategy, record: Record<string, any>, batch: WriteBatch): Promise<string> {
+    if (typeof strategy === 'function') {
+      const id = await strategy(record);
+      if (typeof id !== 'string' || id === '') {
+        throw new Error(`ID strategy of table '${this.tableName}' must return a non-empty string`);
+      }
+      return id;
+    }
+
+    const { type, prefix = '' }: { type: IdGenerator; prefix?: string } =
+      typeof strategy === 'string' ? { type: strategy } : strategy;
+    switch (type) {
+      case 'uuid':
+        return prefix + uuidv4();
+      case 'ulid':
+        return prefix + ulid();
+      case 'uuidv7':
+        return prefix + uuidv7();
+      case 'counter': {
+        const key = this.getMetaKey('idCounter');
+        const next = (await batch.get<number>(key) ?? 0) + 1;
+        batch.put(key, next);
+        return prefix + next;
+      }
+      default:
+        throw new Error(`Unknown ID strategy '${type}' for table '${this.tableName}'`);
+    }
+  }
+
+  /**
+   * Merge updates into a record and validate the result
+   */
+  private async prepareUpdate(
+    existing: InferSchemaType<S>,
+    updates: Partial<InferSchemaType<S>>
+  ): Promise<InferSchemaType<S>> {
+    const updated = await this.runHooks('beforeValidate', 'update', { ...existing, ...updates });
+    this.validateSchema(updated);
+    return updated;
+  }
+
+  /**
+   * Reject records a hook gave a different id, then re-validate them
+   */
+  private checkHookResult(id: string, data: InferSchemaType<S>, hook: HookName): void {
+    if ((data as any).id !== id) {
+      throw new Error(`Hook '${hook}' cannot change the id of record '${id}'`);
+    }
+    this.validateSchema(data);
+  }
+
+  /**
+   * Read a record through a batch, seeing writes staged in it
+   */
+  private async findStaged(id: string, batch: WriteBatch): Promise<InferSchemaType<S> | null> {
+    const data = await batch.get(this.getRecordKey(id));
+    if (!data) return null;
+    const [stored] = await this.withLargeFields([data], this.separateFields, batch);
+    return this.deserialize(stored);
+  }
+
+  /**
+   * Whether two records store the same value in every field
+   */
+  private sameRecord(a: InferSchemaType<S>, b: InferSchemaType<S>): boolean {
+    return Object.keys(this.schema).every(field =>
+      JSON.stringify(this.serializeValue((a as any)[field], this.schema[field])) ===
+      JSON.stringify(this.serializeValue((b as any)[field], this.schema[field]))
+    );
+  }
+
+  /**
+   * Create a new record
+   * The record and its index entries are written in a single transaction.
+   * On models with expiry, `ttl` (in ms) sets the record's `expiresAt`
+   */
+  async create(input: CreateInput<S, this['idStrategy']>, options: { ttl?: number } = {}): Promise<InferSchemaType<S>> {
+    return this.batched(async (model, batch) => {
+      const data = await model.prepareRecord(input as InferInputType<S>, batch, options.ttl);
+      return model.insertRecord(data, batch);
+    });
+  }
+
+  private async insertRecord(input: InferSchemaType<S>, batch: WriteBatch): Promise<InferSchemaType<S>> {
+    const id = (input as any).id;
+    const key = this.getRecordKey(id);
+    if (await batch.get(key) && !(await this.removeExpired(id, batch))) {
+      throw new Error(`Record with id '${id}' already exists`);
+    }
+
+    const data = await this.runHooks('beforeCreate', 'create', input);
+    if (this.hasHooks('beforeCreate')) {
+      this.checkHookResult(id, data, 'beforeCreate');
+    }
+
+    // Enforce unique constraints
+    await this.writeUniqueKeys(id, data, null, batch);
+
+    // Serialize and store
+    this.storeRecord(id, data, batch);
+
+    // Update indexes
+    this.updateIndexes(id, data, null, batch);
+    await this.updateSearchIndex(id, data, null, batch);
+    this.alarmForExpiry(data, batch);
+
+    batch.afterFlush(() => this.runHooks('afterCreate', 'create', data));
+    this.publish({ type: 'insert', table: this.tableName, id, before: null, after: data });
+    return data;
+  }
+
+  /**
+   * Create many records in one transaction, reporting an outcome per record
+   * Every record is validated before anything is written. Invalid records and
+   * unique conflicts are reported as failed without stopping the others; ids
+   * that already exist are skipped
+   */
+  async createMany(inputs: CreateInput<S, this['idStrategy']>[]): Promise<BulkWriteResult<InferSchemaType<S>>> {
+    return this.batched(async (model, batch) => {
+      const results: WriteResult<InferSchemaType<S>>[] = [];
+      const prepared: { result: WriteResult<InferSchemaType<S>>; data: InferSchemaType<S> }[] = [];
+
+      for (const input of inputs) {
+        const result: WriteResult<InferSchemaType<S>> = { id: (input as any).id, status: 'created' };
+        results.push(result);
+        try {
+          const data = await model.prepareRecord(input as InferInputType<S>, batch);
+          result.id = (data as any).id;
+          prepared.push({ result, data });
+        } catch (error) {
+          model.markFailed(result, error);
+        }
+      }
+
+      // Read every record, index and unique key involved in a few multi-key gets
+      await batch.prefetch(prepared.flatMap(({ data }) => [
+        model.getRecordKey((data as any).id),
+        ...model.getRecordUniqueKeys(data),
+      ]));
+
+      for (const { result, data } of prepared) {
+        const existing = await model.findStaged(result.id, batch);
+        if (existing && !model.isExpired(existing)) {
+          result.status = 'skipped';
+          continue;
+        }
+        try {
+          result.record = await model.insertRecord(data, batch);
+        } catch (error) {
+          model.markFailed(result, error);
+        }
+      }
+
+      return model.summarize(results);
+    });
+  }
+
+  /**
+   * Create a record, or update the existing record with the same id
+   * Returns 'skipped' without writing when the record is unchanged. Throws for
+   * a soft-deleted id, as update() does: restore() or purge() it first
+   */
+  async upsert(input: CreateInput<S, this['idStrategy']>): Promise<WriteResult<InferSchemaType<S>>> {
+    return this.batched(async (model, batch) => {
+      const id = (input as any).id;
+      if (!id && model.idStrategy === null) {
+        throw new Error('Record must have an id field');
+      }
+
+      // Without an id there is nothing to update; the strategy gives the new record one
+      const existing = id ? await model.findStaged(id, batch) : null;
+      if (!existing || model.isExpired(existing)) {
+        const data = await model.prepareRecord(input as InferInputType<S>, batch);
+        return { id: (data as any).id, status: 'created', record: await model.insertRecord(data, batch) };
+      }
+      if (model.isDeleted(existing)) {
+        throw new Error(`Record with id '${id}' not found`);
+      }
+
+      const updated = await model.prepareUpdate(existing, input as Partial<InferSchemaType<S>>);
+      if (model.sameRecord(existing, updated)) {
+        return { id, status: 'skipped', record: existing };
+      }
+      return { id, status: 'updated', record: await model.updateRecord(id, updated, existing, batch) };
+    });
+  }
+
+  /**
+   * Record why a bulk write failed for one record
+   */
+  private markFailed(result: WriteResult<InferSchemaType<S>>, error: unknown): void {
+    result.status = 'failed';
+    result.error = error instanceof Error ? error.message : String(error);
+  }
+
+  /**
+   * Total the outcomes of a bulk write
+   */
+  private summarize(results: WriteResult<InferSchemaType<S>>[]): BulkWriteResult<InferSchemaType<S>> {
+    const summary: BulkWriteResult<InferSchemaType<S>> = {
+      results,
+      created: 0,
+      updated: 0,
+      deleted: 0,
+      skipped: 0,
+      failed: 0,
+    };
+    for (const result of results) {
+      summary[result.status]++;
+    }
+    return summary;
+  }
+
+  /**
+   * Whether delete() soft-deletes; checks the schema declares the marker field
+   */
+  private get softDeletes(): boolean {
+    if (!this.softDelete) {
+      return false;
+    }
+    const definition = this.schema[SOFT_DELETE_FIELD];
+    const field = definition && this.describeField(definition);
+    if (!field || field.type !== 'date' || !(field.optional || field.nullable)) {
+      throw new Error(`Soft delete requires an optional or nullable date field '${SOFT_DELETE_FIELD}'`);
+    }
+    return true;
+  }
+
+  private isDeleted(record: InferSchemaType<S>): boolean {
+    return this.softDeletes && (record as any)[SOFT_DELETE_FIELD] != null;
+  }
+
+  /**
+   * Whether expiry is enabled; checks the schema declares `expiresAt`
+   */
+  private get expiring(): boolean {
+    if (!this.expires) {
+      return false;
+    }
+    this.requireManagedField(EXPIRES_AT_FIELD, 'date', 'expires');
+    return true;
+  }
+
+  private isExpired(record: InferSchemaType<S>): boolean {
+    const expiresAt = (record as any)[EXPIRES_AT_FIELD];
+    return this.expiring && expiresAt instanceof Date && expiresAt.getTime() <= Date.now();
+  }
+
+  /**
+   * Whether a record is neither soft-deleted nor expired
+   */
+  private isLive(record: InferSchemaType<S>): boolean {
+    return !this.isDeleted(record) && !this.isExpired(record);
+  }
+
+  /**
+   * Whether a record is visible under a query's soft-delete mode
+   */
+  private matchesDeleted(record: InferSchemaType<S>, mode: QueryOptions<InferSchemaType<S>>['deleted'] = 'exclude'): boolean {
+    if (mode === 'include') {
+      return true;
+    }
+    return this.isDeleted(record) === (mode === 'only');
+  }
+
+  /**
+   * Find a record by ID
+   * Soft-deleted records are skipped unless `withDeleted` is set
+   */
+  async find(id: string, options: { withDeleted?: boolean } = {}): Promise<InferSchemaType<S> | null> {
+    const key = this.getRecordKey(id);
+    const data = await this.store.get(key);
+    
+    if (!data) {
+      return null;
+    }
+
+    const [stored] = await this.withLargeFields([data], this.separateFields);
+    const record = this.deserialize(stored);
+    if (this.isExpired(record)) {
+      return null;
+    }
+    return options.withDeleted || !this.isDeleted(record) ? record : null;
+  }
+
+  /**
+   * Load records by id with multi-key gets, in the order given, reading the given large fields
+   * Ids without a record are skipped
+   */
+  private async loadRecords(ids: string[], fields: string[] = this.separateFields): Promise<InferSchemaType<S>[]> {
+    const records: InferSchemaType<S>[] = [];
+    for (let i = 0; i < ids.length; i += MAX_KEYS_PER_CALL) {
+      const keys = ids.slice(i, i + MAX_KEYS_PER_CALL).map(id => this.getRecordKey(id));
+      const values = await this.store.get(keys);
+      const found = keys.map(key => values.get(key)).filter(Boolean);
+      for (const data of await this.withLargeFields(found, fields)) {
+        records.push(this.deserialize(data));
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Find a record by the values of a unique constraint (or by id)
+   * Resolves the id through the unique index with a single read
+   */
+  async findUnique(conditions: Partial<InferSchemaType<S>>): Promise<InferSchemaType<S> | null> {
+    const fields = Object.keys(conditions);
+    if (fields.length === 1 && fields[0] === 'id') {
+      return this.find((conditions as any).id);
+    }
+
+    const constraint = this.uniqueFields.find(unique =>
+      unique.length === fields.length && unique.every(field => fields.includes(field))
+    );
+    if (!constraint) {
+      throw new Error(`No unique constraint on fields: ${fields.join(', ')}`);
+    }
+
+    // Unique keys of fields with pending migrations may hold pre-migration values
+    const pending = await this.pendingMigrationFields();
+    if (constraint.some(field => pending.has(field))) {
+      const [record] = await this.query({ where: conditions as WhereClause<InferSchemaType<S>>, limit: 1 });
+      return record ?? null;
+    }
+
+    const uniqueKey = this.getUniqueKey(constraint, conditions);
+    const id = uniqueKey ? await this.store.get<string>(uniqueKey) : undefined;
+    return id ? this.find(id) : null;
+  }
+
+  /**
+   * Find the first record whose field equals a value
+   * Uses the unique index when the field is unique, otherwise runs a query
+   */
+  async findBy<K extends keyof InferSchemaType<S>>(
+    field: K,
+    value: InferSchemaType<S>[K]
+  ): Promise<InferSchemaType<S> | null> {
+    const conditions = { [field]: value } as unknown as Partial<InferSchemaType<S>>;
+    const isUnique = field === 'id' ||
+      this.uniqueFields.some(unique => unique.length === 1 && unique[0] === field);
+
+    if (isUnique) {
+      return this.findUnique(conditions);
+    }
+
+    const [record] = await this.query({ where: conditions as any, limit: 1 });
+    return record || null;
+  }
+
+  /**
+   * Update a record
+   * The record and its index entries are written in a single transaction.
+   * With `expectedVersion`, throws a VersionConflictError if the record has
+   * been written since that version was read
+   */
+  async update(
+    id: string,
+    updates: Partial<InferSchemaType<S>>,
+    options: { expectedVersion?: number } = {}
+  ): Promise<InferSchemaType<S>> {
+    return this.batched(async (model, batch) => {
+      const existing = await model.findStaged(id, batch);
+      if (!existing || !model.isLive(existing)) {
+        throw new Error(`Record with id '${id}' not found`);
+      }
+      if (options.expectedVersion !== undefined) {
+        model.checkVersion(existing, options.expectedVersion);
+      }
+
+      // Merge updates, then validate the complete record
+      const updated = await model.prepareUpdate(existing, updates);
+      return model.updateRecord(id, updated, existing, batch);
+    });
+  }
+
+  private async updateRecord(
+    id: string,
+    input: InferSchemaType<S>,
+    existing: InferSchemaType<S>,
+    batch: WriteBatch
+  ): Promise<InferSchemaType<S>> {
+    const updated = await this.beforeUpdateRecord(id, input, existing);
+    await this.stageUpdate(id, updated, existing, batch);
+    return updated;
+  }
+
+  /**
+   * Stamp a record being updated and run its beforeUpdate hooks
+   */
+  private async beforeUpdateRecord(
+    id: string,
+    input: InferSchemaType<S>,
+    existing: InferSchemaType<S>
+  ): Promise<InferSchemaType<S>> {
+    const stamped = { ...input, ...this.stamp(existing) };
+    const updated = await this.runHooks('beforeUpdate', 'update', stamped, existing);
+    if (this.hasHooks('beforeUpdate')) {
+      this.checkHookResult(id, updated, 'beforeUpdate');
+    }
+    return updated;
+  }
+
+  /**
+   * Stage an update whose beforeUpdate hooks have run
+   */
+  private async stageUpdate(
+    id: string,
+    updated: InferSchemaType<S>,
+    existing: InferSchemaType<S>,
+    batch: WriteBatch
+  ): Promise<void> {
+    await this.rewriteRecord(id, updated, existing, batch);
+    this.alarmForExpiry(updated, batch);
+
+    batch.afterFlush(() => this.runHooks('afterUpdate', 'update', updated, existing));
+    this.publish({ type: 'update', table: this.tableName, id, before: existing, after: updated });
+  }
+
+  /**
+   * Store a changed record and move its index entries, without running hooks
+   */
+  private async rewriteRecord(
+    id: string,
+    updated: InferSchemaType<S>,
+    existing: InferSchemaType<S>,
+    batch: WriteBatch
+  ): Promise<void> {
+    const stored = this.storedForm(existing);
+
+    // Enforce unique constraints on changed values
+    await this.writeUniqueKeys(id, updated, stored, batch);
+
+    // Store updated record
+    this.storeRecord(id, updated, batch);
+
+    // Move index entries whose values changed
+    this.updateIndexes(id, updated, stored, batch);
+    await this.updateSearchIndex(id, updated, stored, batch);
+  }
+
+  /**
+   * Apply the same patch to every record matching a filter, in one transaction
+   * Records left unchanged by the patch are skipped; records the patch would
+   * make invalid or that hit a unique conflict are reported as failed
+   */
+  async updateWhere(
+    filter: WhereClause<InferSchemaType<S>>,
+    updates: Partial<InferSchemaType<S>>
+  ): Promise<BulkWriteResult<InferSchemaType<S>>> {
+    return this.batched(async (model, batch) => {
+      const matches = await model.query({ where: filter });
+      const results: WriteResult<InferSchemaType<S>>[] = [];
+      const changed: { result: WriteResult<InferSchemaType<S>>; existing: InferSchemaType<S>; updated: InferSchemaType<S> }[] = [];
+
+      for (const existing of matches) {
+        const id = (existing as any).id;
+        const result: WriteResult<InferSchemaType<S>> = { id, status: 'updated' };
+        results.push(result);
+
+        let updated: InferSchemaType<S>;
+        try {
+          updated = await model.prepareUpdate(existing, updates);
+        } catch (error) {
+          model.markFailed(result, error);
+          continue;
+        }
+        if (model.sameRecord(existing, updated)) {
+          result.status = 'skipped';
+          result.record = existing;
+          continue;
+        }
+        changed.push({ result, existing, updated });
+      }
+
+      await batch.prefetch(changed.flatMap(({ existing, updated }) => [
+        ...model.getRecordUniqueKeys(existing),
+        ...model.getRecordUniqueKeys(updated),
+      ]));
+
+      for (const { result, existing, updated } of changed) {
+        try {
+          result.record = await model.updateRecord(result.id, updated, existing, batch);
+        } catch (error) {
+          model.markFailed(result, error);
+        }
+      }
+
+      return model.summarize(results);
+    });
+  }
+
+  /**
+   * Delete a record
+   * The record and its index entries are removed in a single transaction.
+   * With soft delete enabled, sets `deletedAt` instead and keeps the record
+   */
+  async delete(id: string): Promise<boolean> {
+    return this.batched(async (model, batch) => {
+      const existing = await model.findStaged(id, batch);
+      if (!existing || !model.isLive(existing)) {
+        return false;
+      }
+      await model.deleteRecord(id, existing, batch);
+      return true;
+    });
+  }
+
+  /**
+   * Remove a record for good, soft-deleted or not
+   */
+  async purge(id: string): Promise<boolean> {
+    return this.batched(async (model, batch) => {
+      const existing = await model.findStaged(id, batch);
+      if (!existing) {
+        return false;
+      }
+      await model.deleteRecord(id, existing, batch, true);
+      return true;
+    });
+  }
+
+  /**
+   * Clear a soft-deleted record's `deletedAt`, running update hooks
+   * Returns the record; records that aren't deleted are returned unchanged
+   */
+  async restore(id: string): Promise<InferSchemaType<S>> {
+    if (!this.softDeletes) {
+      throw new Error(`Soft delete is not enabled for table '${this.tableName}'`);
+    }
+    return this.batched(async (model, batch) => {
+      const existing = await model.findStaged(id, batch);
+      if (!existing || model.isExpired(existing)) {
+        throw new Error(`Record with id '${id}' not found`);
+      }
+      if (!model.isDeleted(existing)) {
+        return existing;
+      }
+      return model.updateRecord(id, { ...existing, [SOFT_DELETE_FIELD]: null }, existing, batch);
+    });
+  }
+
+  private async deleteRecord(id: string, existing: InferSchemaType<S>, batch: WriteBatch, purge = false): Promise<void> {
+    // Every hook and onDelete rule in the cascade runs before anything is staged,
+    // so a delete rejected anywhere in it leaves no part behind
+    const planned = await this.planDelete(id, existing, batch, new Set());
+    await this.stageDelete(planned, batch, purge);
+  }
+
+  /**
+   * Run the beforeDelete hooks and onDelete rules of a record and of every
+   * record its delete cascades to, without staging anything
+   * @param seen - record keys already planned in this cascade
+   */
+  private async planDelete(
+    id: string,
+    existing: InferSchemaType<S>,
+    batch: WriteBatch,
+    seen: Set<string>
+  ): Promise<PlannedDelete> {
+    seen.add(this.getRecordKey(id));
+    // Purging an already soft-deleted record is invisible to hooks and subscribers
+    const visible = !this.isDeleted(existing);
+    const planned: PlannedDelete = { model: this, id, existing, visible, related: [] };
+    if (visible) {
+      await this.runHooks('beforeDelete', 'delete', existing);
+      planned.related = await this.planOnDelete(id, batch, seen);
+    }
+    return planned;
+  }
+
+  /**
+   * Stage a planned delete, after the changes it makes to related records
+   */
+  private async stageDelete(planned: PlannedDelete, batch: WriteBatch, purge = false): Promise<void> {
+    const { id, existing, visible } = planned;
+    for (const change of planned.related) {
+      if ('cascade' in change) {
+        await change.cascade.model.stageDelete(change.cascade, batch);
+      } else {
+        await change.model.stageUpdate(change.existing.id, change.updated, change.existing, batch);
+      }
+    }
+
+    if (this.softDeletes && !purge) {
+      const deleted = { ...existing, ...this.stamp(existing), [SOFT_DELETE_FIELD]: new Date() };
+      await this.rewriteRecord(id, deleted, existing, batch);
+    } else {
+      await this.removeRecord(id, existing, batch);
+    }
+
+    if (visible) {
+      batch.afterFlush(() => this.runHooks('afterDelete', 'delete', existing));
+      this.publish({ type: 'delete', table: this.tableName, id, before: existing, after: null });
+    }
+  }
+
+  /**
+   * Model instance a relation points at, bound to this model's transaction
+   * Uses the instance the application constructed for that table, if any
+   */
+  private relatedModel(model: () => ModelClass, tableName?: string): DOModel<any> {
+    const Target = model();
+    const table = tableName || Target.name.toLowerCase();
+    let related = registeredModels.get(this.storage)?.get(table);
+    if (!(related instanceof Target)) {
+      related = new Target(this.storage, table);
+    }
+    return this.txn ? related.withTransaction(this.txn) : related;
+  }
+
+  private getRelation(name: string): RelationDefinition {
+    const relation = this.relations[name];
+    if (!relation) {
+      throw new Error(`Unknown relation '${name}' on table '${this.tableName}'`);
+    }
+    return relation;
+  }
+
+  /**
+   * Apply each hasMany and manyToMany relation's onDelete rule to a record
+   * being deleted: refuse while related records remain, plan their deletes, or
+   * plan clearing their foreign key. Every restriction is checked first
+   */
+  private async planOnDelete(id: string, batch: WriteBatch, seen: Set<string>): Promise<PlannedDelete['related']> {
+    const actions: { model: DOModel<any>; key: string; onDelete: 'cascade' | 'setNull'; records: any[] }[] = [];
+
+    for (const [name, relation] of Object.entries(this.relations)) {
+      if (relation.type === 'belongsTo') continue;
+      const [model, key] = relation.type === 'hasMany'
+        ? [this.relatedModel(relation.model, relation.tableName), relation.foreignKey]
+        : [this.relatedModel(relation.through, relation.throughTableName), relation.sourceKey];
+      const onDelete = relation.onDelete ?? (relation.type === 'hasMany' ? 'restrict' : 'cascade');
+
+      // query() reads storage, so skip records this batch has already deleted or moved
+      const found = await model.query({ where: { [key]: id } });
+      await batch.prefetch(found.map(record => model.getRecordKey(record.id)));
+      const records: any[] = [];
+      for (const record of found) {
+        if (seen.has(model.getRecordKey(record.id))) continue;
+        const staged = await model.findStaged(record.id, batch);
+        if (staged && model.isLive(staged) && (staged as any)[key] === id) {
+          records.push(staged);
+        }
+      }
+      if (records.length === 0) continue;
+      if (onDelete === 'restrict') {
+        throw new Error(
+          `Cannot delete '${id}' from '${this.tableName}': ${records.length} record(s) in '${model.tableName}' still reference it through '${name}'`
+        );
+      }
+      actions.push({ model, key, onDelete, records });
+    }
+
+    const related: PlannedDelete['related'] = [];
+    for (const { model, key, onDelete, records } of actions) {
+      for (const record of records) {
+        // A record reached twice in one cascade is deleted once
+        if (seen.has(model.getRecordKey(record.id))) continue;
+        if (onDelete === 'cascade') {
+          related.push({ cascade: await model.planDelete(record.id, record, batch, seen) });
+        } else {
+          const updated = await model.prepareUpdate(record, { [key]: null });
+          related.push({ model, existing: record, updated: await model.beforeUpdateRecord(record.id, updated, record) });
+        }
+      }
+    }
+    return related;
+  }
+
+  /**
+   * Load the named relations onto records, with one batched read per relation
+   * Soft-deleted and expired related records are left out
+   */
+  private async loadIncludes(records: any[], names: readonly string[]): Promise<void> {
+    if (records.length === 0) return;
+
+    for (const name of names) {
+      const relation = this.getRelation(name);
+      const target = this.relatedModel(relation.model, relation.tableName);
+
+      if (relation.type === 'belongsTo') {
+        const ids = [...new Set(records.map(record => record[relation.foreignKey]).filter(id => id != null))];
+        const found = (await target.loadRecords(ids)).filter(record => target.isLive(record));
+        const byId = new Map(found.map(record => [(record as any).id, record]));
+        for (const record of records) {
+          record[name] = byId.get(record[relation.foreignKey]) ?? null;
+        }
+        continue;
+      }
+
+      const ids = records.map(record => record.id);
+      const related = new Map<string, any[]>(ids.map(id => [id, []]));
+
+      if (relation.type === 'hasMany') {
+        for (const child of await target.query({ where: { [relation.foreignKey]: { in: ids } } })) {
+          related.get((child as any)[relation.foreignKey])?.push(child);
+        }
+      } else {
+        const through = this.relatedModel(relation.through, relation.throughTableName);
+        const links = await through.query({ where: { [relation.sourceKey]: { in: ids } } });
+        const targetIds = [...new Set(links.map(link => link[relation.targetKey]))];
+        const found = (await target.loadRecords(targetIds)).filter(record => target.isLive(record));
+        const byId = new Map(found.map(record => [(record as any).id, record]));
+        for (const link of links) {
+          const linked = byId.get(link[relation.targetKey]);
+          if (linked) related.get(link[relation.sourceKey])?.push(linked);
+        }
+      }
+
+      for (const record of records) {
+        record[name] = related.get(record.id);
+      }
+    }
+  }
+
+  /**
+   * Remove a record with its index and unique entries, without running hooks
+   */
+  private async removeRecord(id: string, existing: InferSchemaType<S>, batch: WriteBatch): Promise<void> {
+    // Remove from indexes
+    const stored = this.storedForm(existing);
+    this.updateIndexes(id, null, stored, batch);
+    await this.updateSearchIndex(id, null, stored, batch);
+    this.removeUniqueKeys(stored, batch);
+
+    // Delete record
+    batch.delete(this.getRecordKey(id));
+    for (const field of this.separateFields) {
+      batch.delete(this.getFieldKey(field, id));
+    }
+  }
+
+  /**
+   * Remove a record if it has expired, so its id and unique values can be reused
+   */
+  private async removeExpired(id: string, batch: WriteBatch): Promise<boolean> {
+    if (!this.expiring) {
+      return false;
+    }
+    const existing = await this.findStaged(id, batch);
+    if (!existing || !this.isExpired(existing)) {
+      return false;
+    }
+
+    await this.removeRecord(id, existing, batch);
+    this.publish({ type: 'delete', table: this.tableName, id, before: existing, after: null });
+    return true;
+  }
+
+  /**
+   * Make sure the alarm fires by the time a record being written expires
+   */
+  private alarmForExpiry(record: InferSchemaType<S>, batch: WriteBatch): void {
+    const expiresAt = (record as any)[EXPIRES_AT_FIELD];
+    if (this.expiring && expiresAt instanceof Date) {
+      batch.afterFlush(() => this.setAlarmBy(expiresAt.getTime()));
+    }
+  }
+
+  /**
+   * Move the Durable Object's alarm earlier if it isn't set to fire by `time`
+   * The alarm is shared with everything else in the object, so it is never moved later
+   */
+  private async setAlarmBy(time: number): Promise<void> {
+    const current = await this.store.getAlarm();
+    if (current === null || current > time) {
+      await this.store.setAlarm(time);
+    }
+  }
+
+  /**
+   * Index scan over records with an expiresAt, up to `until` when given
+   */
+  private expiryScan(until?: Date): IndexScan {
+    return {
+      fields: [EXPIRES_AT_FIELD],
+      equals: [],
+      range: {
+        lower: { value: null, inclusive: false },
+        upper: until ? { value: until, inclusive: true } : undefined,
+      },
+      reverse: false,
+    };
+  }
+
+  /**
+   * Set the alarm for the earliest expiry in the table, unless it already fires
+   * sooner. Writes schedule their own expiry, so this is only needed after
+   * enabling expiry on a table with existing records. Returns the time of the
+   * earliest expiry, or null when no record expires
+   */
+  async scheduleExpiry(): Promise<number | null> {
+    await this.prepareStorage();
+    if (!this.expiring) {
+      throw new Error(`Expiry is not enabled for table '${this.tableName}'`);
+    }
+
+    const listOptions = this.getIndexListOptions(this.expiryScan());
+    const [first] = await this.store.list<string>({ ...listOptions, limit: 1 });
+    if (!first) {
+      return null;
+    }
+
+    const [expiresAt] = decodeIndexTuple(first[0].slice(listOptions.prefix!.length)) as number[];
+    await this.setAlarmBy(expiresAt);
+    return expiresAt;
+  }
+
+  /**
+   * Remove expired records with their index and unique entries; call it from
+   * the Durable Object's alarm() handler. Works through the expiry index in
+   * batches of `batchSize`, each in its own transaction, for at most
+   * `maxBatches` batches. When more expired records remain, it sets the alarm
+   * to fire again right away; otherwise it sets it for the next expiry
+   */
+  async sweepExpired(
+    options: { batchSize?: number; maxBatches?: number } = {}
+  ): Promise<{ deleted: number; done: boolean }> {
+    await this.prepareStorage();
+    if (!this.expiring) {
+      throw new Error(`Expiry is not enabled for table '${this.tableName}'`);
+    }
+    const batchSize = options.batchSize || EXPIRY_BATCH_SIZE;
+    const maxBatches = options.maxBatches || EXPIRY_MAX_BATCHES;
+
+    let deleted = 0;
+    for (let i = 0; i < maxBatches; i++) {
+      const { listed, removed } = await this.batched(async (model, batch) => {
+        const scan = model.expiryScan(new Date());
+        const entries = await model.store.list<string>({ ...model.getIndexListOptions(scan), limit: batchSize });
+        const ids = [...entries.values()];
+        await batch.prefetch(ids.flatMap(id => [
+          model.getRecordKey(id),
+          ...model.separateFields.map(field => model.getFieldKey(field, id)),
+        ]));
+
+        let removed = 0;
+        for (const [key, id] of entries) {
+          if (await model.removeExpired(id, batch)) {
+            removed++;
+            continue;
+          }
+          // An entry its record no longer holds would keep the alarm in the past forever
+          const record = await model.findStaged(id, batch);
+          if (!record || model.getRecordIndexKey([EXPIRES_AT_FIELD], model.storedForm(record)) !== key) {
+            batch.delete(key);
+          }
+        }
+        return { listed: entries.size, removed };
+      });
+
+      deleted += removed;
+      if (listed < batchSize) {
+        await this.scheduleExpiry();
+        return { deleted, done: true };
+      }
+    }
+
+    await this.setAlarmBy(Date.now());
+    return { deleted, done: false };
+  }
+
+  /**
+   * Delete every record matching a filter, in one transaction
+   * Records a beforeDelete hook rejects are reported as failed and kept
+   */
+  async deleteWhere(filter: WhereClause<InferSchemaType<S>>): Promise<BulkWriteResult<InferSchemaType<S>>> {
+    return this.batched(async (model, batch) => {
+      const matches = await model.query({ where: filter });
+      await batch.prefetch(matches.flatMap(record => model.getRecordUniqueKeys(record)));
+
+      const results: WriteResult<InferSchemaType<S>>[] = [];
+      for (const match of matches) {
+        const result: WriteResult<InferSchemaType<S>> = { id: (match as any).id, status: 'deleted', record: match };
+        results.push(result);
+
+        // Records an earlier delete in this call cascaded to are already gone
+        const existing = await model.findStaged(result.id, batch);
+        if (!existing || !model.isLive(existing)) continue;
+        try {
+          await model.deleteRecord(result.id, existing, batch);
+        } catch (error) {
+          delete result.record;
+          model.markFailed(result, error);
+        }
+      }
+
+      return model.summarize(results);
+    });
+  }
+
+  /**
+   * Value a legacy index key stood for: those keys ended with `String(value)`,
+   * or the ISO string of a date, so the schema tells how to read it back
+   */
+  private parseLegacyIndexValue(field: string, raw: string): unknown {
+    const definition = this.schema[field];
+    switch (definition ? this.describeField(definition).type : 'string') {
+      case 'number':
+        return Number(raw);
+      case 'boolean':
+        return raw === 'true';
+      case 'date':
+        return new Date(raw);
+      default:
+        return raw;
+    }
+  }
+
+  /**
+   * Convert index entries written as ID arrays by earlier versions
+   * (`index:{table}:{field}:{value}`) to one order-encoded key per (value, id)
+   * pair. Runs automatically the first time a model queries or
+   * writes; call it inside blockConcurrencyWhile() to migrate before serving
+   * requests. Safe to re-run after an interruption. Returns the number of
+   * index entries converted
+   */
+  async migrateIndexes(): Promise<number> {
+    const metaKey = this.getMetaKey('indexLayout');
+    if (await this.store.get(metaKey) === INDEX_LAYOUT_VERSION) {
+      return 0;
+    }
+
+    const prefix = `index:${this.tableName}:`;
+    const listOptions: DurableObjectListOptions = { prefix, limit: SCAN_PAGE_SIZE };
+    let migrated = 0;
+
+    while (true) {
+      const page = await this.store.list(listOptions);
+      const batch = new WriteBatch(this.store);
+      let lastKey: string | undefined;
+
+      // Legacy keys hold arrays; keys already in the new layout hold a single id
+      for (const [key, value] of page) {
+        lastKey = key;
+        if (!Array.isArray(value)) continue;
+
+        // Legacy indexes covered a single field, and field names hold no ':'
+        const rest = key.slice(prefix.length);
+        const separator = rest.indexOf(':');
+        const field = rest.slice(0, separator);
+        const indexKey = this.getIndexKey([field], [this.parseLegacyIndexValue(field, rest.slice(separator + 1))]);
+        for (const id of value as string[]) {
+          batch.put(indexKey + encodeIndexValue(id), id);
+        }
+        batch.delete(key);
+        migrated += value.length;
+      }
+      await batch.flush();
+
+      if (page.size < SCAN_PAGE_SIZE || lastKey === undefined) break;
+      listOptions.startAfter = lastKey;
+    }
+
+    await this.store.put(metaKey, INDEX_LAYOUT_VERSION);
+    return migrated;
+  }
+
+  /**
+   * Prepare storage once, before the model first queries or writes: migrate
+   * legacy index entries, and mark a new, empty table as already at the
+   * current schema version
+   */
+  private async prepareStorage(): Promise<void> {
+    if (this.setup.done) return;
+    await this.migrateIndexes();
+
+    if (this.schemaVersion > 1 && await this.store.get(this.getMetaKey('schemaVersion')) === undefined) {
+      const existing = await this.store.list({ prefix: `${this.tableName}:`, limit: 1 });
+      if (existing.size === 0) {
+        await this.recordMigrations(1);
+      }
+    }
+    this.setup.done = true;
+  }
+
+  /**
+   * Schema version declared by the model: the last migration's version, or 1
+   */
+  get schemaVersion(): number {
+    let version = 1;
+    for (const migration of this.migrations) {
+      if (!Number.isInteger(migration.version) || migration.version <= version) {
+        throw new Error(`Migration versions must be increasing integers above 1, got ${migration.version} after ${version}`);
+      }
+      version = migration.version;
+    }
+    return version;
+  }
+
+  /**
+   * Fields whose index and unique entries may still hold pre-migration
+   * values: those touched by migrations the table has not completed. Empty
+   * once migrateAll() has finished
+   */
+  private async pendingMigrationFields(): Promise<Set<string>> {
+    const fields = new Set<string>();
+    if (this.schemaVersion === 1) return fields;
+
+    const tableVersion = await this.store.get<number>(this.getMetaKey('schemaVersion')) ?? 1;
+    for (const migration of this.migrations) {
+      if (migration.version <= tableVersion) continue;
+      if (migration.type === 'renameField') {
+        fields.add(migration.from);
+        fields.add(migration.to);
+      } else {
+        fields.add(migration.field);
+      }
+    }
+    return fields;
+  }
+
+  /**
+   * Apply the migrations after `version` to a record's stored fields
+   */
+  private upgradeRecord(fields: Record<string, any>, version: number): Record<string, any> {
+    const record = { ...fields };
+
+    for (const migration of this.migrations) {
+      if (migration.version <= version) continue;
+
+      switch (migration.type) {
+        case 'addField': {
+          if (record[migration.field] !== undefined) break;
+          let value = migration.default;
+          if (!('default' in migration)) {
+            const definition = this.schema[migration.field];
+            value = definition ? this.describeField(definition).default : undefined;
+          }
+          if (typeof value === 'function') value = value(record);
+          if (value !== undefined) {
+            record[migration.field] = this.serializeValue(value, this.schema[migration.field]);
+          }
+          break;
+        }
+        case 'renameField':
+          if (migration.from in record) {
+            record[migration.to] = record[migration.from];
+            delete record[migration.from];
+          }
+          break;
+        case 'transformField': {
+          const value = migration.transform(record[migration.field], record);
+          if (value === undefined) {
+            delete record[migration.field];
+          } else {
+            record[migration.field] = value;
+          }
+          break;
+        }
+        case 'dropField':
+          delete record[migration.field];
+          break;
+      }
+    }
+
+    return record;
+  }
+
+  /**
+   * Rewrite every record still at an older schema version, moving its index
+   * and unique entries. Walks the table in chunks, each listed and rewritten
+   * in its own transaction, so it can run from an alarm or be resumed after
+   * an interruption. Records the migrations as applied once the table is done
+   */
+  async migrateAll(options: { chunkSize?: number } = {}): Promise<{ migrated: number; version: number }> {
+    await this.prepareStorage();
+    const version = this.schemaVersion;
+    const tableVersion = await this.store.get<number>(this.getMetaKey('schemaVersion')) ?? 1;
+    if (tableVersion >= version) {
+      return { migrated: 0, version };
+    }
+
+    let migrated = 0;
+    await this.walkKeys(`${this.tableName}:`, async (page, model, batch) => {
+      const stale = [...page.values()].filter(data => (data[SCHEMA_VERSION_FIELD] ?? 1) < version);
+      const records = (await model.withLargeFields(stale, model.separateFields, batch)).map(data => model.deserialize(data));
+
+      await batch.prefetch(records.flatMap(record => model.getRecordUniqueKeys(record)));
+      for (const record of records) {
+        await model.rewriteRecord((record as any).id, record, record, batch);
+      }
+      migrated += records.length;
+    }, { chunkSize: options.chunkSize });
+
+    await this.recordMigrations(tableVersion);
+    return { migrated, version };
+  }
+
+  /**
+   * Rebuild the search index from the records: clear every search entry and
+   * the search totals, then index each record's searchable fields again. Use
+   * it after marking fields of a table that already holds records as
+   * searchable. Works in chunks, each in its own transaction; if interrupted,
+   * run it again
+   */
+  async rebuildSearchIndex(options: { chunkSize?: number } = {}): Promise<{ indexed: number }> {
+    await this.prepareStorage();
+    const fields = this.searchFields;
+
+    await this.walkKeys(this.getSearchPrefix(), async (page, model, batch) => {
+      for (const key of page.keys()) {
+        batch.delete(key);
+      }
+    }, { chunkSize: options.chunkSize });
+    await this.store.delete(this.getMetaKey('searchTotals'));
+
+    // Index records as stored, so a later migrateAll() moves their entries like any other rewrite
+    let indexed = 0;
+    await this.walkKeys(`${this.tableName}:`, async (page, model, batch) => {
+      const large = model.separateFields.filter(field => fields.includes(field));
+      const records = (await model.withLargeFields([...page.values()], large, batch)).map(data => model.deserializeStored(data));
+      for (const record of records) {
+        await model.updateSearchIndex((record as any).id, record, null, batch);
+        if (model.searchTerms(record).length > 0) indexed++;
+      }
+    }, { chunkSize: options.chunkSize });
+
+    return { indexed };
+  }
+
+  /**
+   * Visit the keys under a prefix in chunks, each listed and handled in its own
+   * transaction. Stops after `maxKeys` keys when given; returns how many keys
+   * were visited, the last one, and whether the prefix was exhausted
+   */
+  private async walkKeys(
+    prefix: string,
+    visit: (page: Map<string, any>, model: this, batch: WriteBatch) => Promise<void>,
+    options: { startAfter?: string; chunkSize?: number; maxKeys?: number } = {}
+  ): Promise<{ visited: number; lastKey?: string; done: boolean }> {
+    const chunkSize = options.chunkSize || MIGRATION_CHUNK_SIZE;
+    let startAfter = options.startAfter;
+    let visited = 0;
+
+    while (true) {
+      const limit = options.maxKeys === undefined ? chunkSize : Math.min(chunkSize, options.maxKeys - visited);
+      if (limit <= 0) {
+        return { visited, lastKey: startAfter, done: false };
+      }
+
+      const size = await this.batched(async (model, batch) => {
+        const page = await model.store.list({ prefix, startAfter, limit });
+        if (page.size > 0) {
+          startAfter = [...page.keys()].pop();
+        }
+        await visit(page, model, batch);
+        return page.size;
+      });
+
+      visited += size;
+      if (size < limit) {
+        return { visited, lastKey: startAfter, done: true };
+      }
+    }
+  }
+
+  /**
+   * Index entries that records should have but storage lacks
+   */
+  private async findMissingEntries(
+    records: InferSchemaType<S>[],
+    fieldLists: string[][],
+    batch: WriteBatch
+  ): Promise<IndexEntryIssue[]> {
+    const expected: IndexEntryIssue[] = [];
+    for (const record of records) {
+      for (const fields of fieldLists) {
+        const key = this.getRecordIndexKey(fields, record);
+        if (key) {
+          expected.push({ index: fields.join('+'), id: (record as any).id, key });
+        }
+      }
+    }
+
+    await batch.prefetch(expected.map(entry => entry.key));
+    const missing: IndexEntryIssue[] = [];
+    for (const entry of expected) {
+      if (await batch.get(entry.key) === undefined) {
+        missing.push(entry);
+      }
+    }
+    return missing;
+  }
+
+  /**
+   * Index entries whose record is gone or no longer holds the indexed values
+   */
+  private async findOrphanedEntries(
+    entries: [string, string][],
+    fields: string[],
+    batch: WriteBatch
+  ): Promise<IndexEntryIssue[]> {
+    await batch.prefetch(entries.map(([, id]) => this.getRecordKey(id)));
+
+    const orphaned: IndexEntryIssue[] = [];
+    for (const [key, id] of entries) {
+      const data = await batch.get(this.getRecordKey(id));
+      const record = data ? this.deserializeStored(data) : null;
+      if (!record || this.getRecordIndexKey(fields, record) !== key) {
+        orphaned.push({ index: fields.join('+'), id, key });
+      }
+    }
+    return orphaned;
+  }
+
+  /**
+   * Backfill indexes from the records, then remove entries that no longer
+   * match a record. Defaults to every declared index; use it after adding an
+   * index to `indexes`. Works in chunks of `chunkSize` keys, each in its own
+   * transaction, and saves its position as it goes: with `maxRecords`, or after
+   * an interruption, the next call with the same indexes resumes where it stopped
+   */
+  async rebuildIndexes(
+    indexes?: readonly IndexDefinition<InferSchemaType<S>>[],
+    options: { chunkSize?: number; maxRecords?: number } = {}
+  ): Promise<IndexRebuildResult> {
+    await this.prepareStorage();
+    const fieldLists = indexes ? this.toFieldLists(indexes) : this.indexFields;
+    const names = fieldLists.map(fields => fields.join('+'));
+    const declared = new Set(this.indexFields.map(fields => fields.join('+')));
+    for (const fields of fieldLists) {
+      if (!declared.has(fields.join('+'))) {
+        throw new Error(`No index on fields: ${fields.join(', ')}`);
+      }
+    }
+
+    const progressKey = this.getMetaKey('indexRebuild');
+    const saved = await this.store.get<IndexRebuildProgress>(progressKey);
+    const progress: IndexRebuildProgress = saved && saved.indexes.join(',') === names.join(',')
+      ? saved
+      : { indexes: names, phase: 'backfill', sweeping: 0 };
+
+    let processed = 0;
+    const walkOptions = () => ({
+      startAfter: progress.after,
+      chunkSize: options.chunkSize,
+      maxKeys: options.maxRecords === undefined ? undefined : options.maxRecords - processed,
+    });
+
+    if (progress.phase === 'backfill') {
+      const result = await this.walkKeys(`${this.tableName}:`, async (page, model, batch) => {
+        const records = [...page.values()].map(data => model.deserializeStored(data));
+        for (const entry of await model.findMissingEntries(records, fieldLists, batch)) {
+          batch.put(entry.key, entry.id);
+        }
+        batch.put(progressKey, { ...progress, after: [...page.keys()].pop() });
+      }, walkOptions());
+
+      processed += result.visited;
+      if (!result.done) {
+        return { indexes: names, processed, done: false };
+      }
+      Object.assign(progress, { phase: 'sweep', sweeping: 0, after: undefined });
+    }
+
+    for (; progress.sweeping < fieldLists.length; progress.sweeping++, progress.after = undefined) {
+      const fields = fieldLists[progress.sweeping];
+      const result = await this.walkKeys(this.getIndexPrefix(fields), async (page, model, batch) => {
+        for (const entry of await model.findOrphanedEntries([...page], fields, batch)) {
+          batch.delete(entry.key);
+        }
+        batch.put(progressKey, { ...progress, after: [...page.keys()].pop() });
+      }, walkOptions());
+
+      processed += result.visited;
+      if (!result.done) {
+        return { indexes: names, processed, done: false };
+      }
+    }
+
+    await this.store.delete(progressKey);
+    return { indexes: names, processed, done: true };
+  }
+
+  /**
+   * Compare indexes with the records they cover and report entries that are
+   * orphaned, entries that are missing, and indexes with stored entries that
+   * are no longer declared. With `repair`, also fixes what it finds
+   */
+  async checkIndexes(options: { repair?: boolean; chunkSize?: number } = {}): Promise<IndexCheckReport> {
+    await this.prepareStorage();
+    const repair = options.repair === true;
+    const report: IndexCheckReport = { orphaned: [], missing: [], undeclared: [], repaired: repair };
+
+    // Records absent from indexes they belong in
+    await this.walkKeys(`${this.tableName}:`, async (page, model, batch) => {
+      const records = [...page.values()].map(data => model.deserializeStored(data));
+      for (const entry of await model.findMissingEntries(records, model.indexFields, batch)) {
+        report.missing.push(entry);
+        if (repair) batch.put(entry.key, entry.id);
+      }
+    }, { chunkSize: options.chunkSize });
+
+    // Entries pointing at missing or changed records, and indexes no longer declared
+    const prefix = `index:${this.tableName}:`;
+    const declared = new Map(this.indexFields.map(fields => [fields.join('+'), fields]));
+    const undeclared = new Map<string, number>();
+
+    await this.walkKeys(prefix, async (page, model, batch) => {
+      const byIndex = new Map<string, [string, string][]>();
+      for (const [key, id] of page) {
+        const rest = key.slice(prefix.length);
+        const name = rest.slice(0, rest.indexOf(':'));
+        if (!byIndex.has(name)) byIndex.set(name, []);
+        byIndex.get(name)!.push([key, id]);
+      }
+
+      for (const [name, entries] of byIndex) {
+        const fields = declared.get(name);
+        if (!fields) {
+          undeclared.set(name, (undeclared.get(name) || 0) + entries.length);
+          if (repair) entries.forEach(([key]) => batch.delete(key));
+          continue;
+        }
+        for (const entry of await model.findOrphanedEntries(entries, fields, batch)) {
+          report.orphaned.push(entry);
+          if (repair) batch.delete(entry.key);
+        }
+      }
+    }, { chunkSize: options.chunkSize });
+
+    report.undeclared = [...undeclared].map(([index, entries]) => ({ index, entries }));
+    return report;
+  }
+
+  /**
+   * Mark the migrations after `fromVersion` as applied to the whole table
+   */
+  private async recordMigrations(fromVersion: number): Promise<void> {
+    const logKey = this.getMetaKey('migrations');
+    const applied = await this.store.get<AppliedMigration[]>(logKey) || [];
+    const appliedAt = new Date().toISOString();
+
+    for (const migration of this.migrations) {
+      if (migration.version > fromVersion) {
+        applied.push({ version: migration.version, description: migration.description, appliedAt });
+      }
+    }
+
+    await this.store.put({
+      [this.getMetaKey('schemaVersion')]: this.schemaVersion,
+      [logKey]: applied,
+    });
+  }
+
+  /**
+   * The model's schema version, the version its stored records are at, and the migrations run so far
+   */
+  async migrationStatus(): Promise<MigrationStatus> {
+    await this.prepareStorage();
+    const tableVersion = await this.store.get<number>(this.getMetaKey('schemaVersion')) ?? 1;
+    return {
+      version: this.schemaVersion,
+      tableVersion,
+      applied: await this.store.get<AppliedMigration[]>(this.getMetaKey('migrations')) || [],
+      pending: this.migrations.map(migration => migration.version).filter(version => version > tableVersion),
+    };
+  }
+
+  /**
+   * Run several writes, possibly across models, as one atomic unit
+   * Models bound through tx.bind() share the transaction; if the closure
+   * throws or calls tx.rollback(), none of the writes are committed
+   */
+  async transaction<T>(closure: (tx: Transaction) => Promise<T>): Promise<T> {
+    if (this.txn) {
+      return closure(new Transaction(this.txn));
+    }
+    return runTransaction(this.storage, txn => closure(new Transaction(txn)));
+  }
+
+  /**
+   * Whether a where condition is an operator object rather than a plain value
+   */
+  private isOperatorCondition(condition: any): condition is Record<string, any> {
+    if (condition === null || typeof condition !== 'object') return false;
+    if (condition instanceof Date || Array.isArray(condition)) return false;
+    const keys = Object.keys(condition);
+    return keys.length > 0 && keys.every(key => WHERE_OPERATORS.has(key));
+  }
+
+  /**
+   * Normalize a value for comparison (Dates compare by timestamp)
+   */
+  private comparable(value: any): any {
+    return value instanceof Date ? value.getTime() : value;
+  }
+
+  /**
+   * Check a record value against a where condition
+   */
+  private matchesCondition(value: any, condition: any): boolean {
+    if (!this.isOperatorCondition(condition)) {
+      return this.comparable(value) === this.comparable(condition);
+    }
+
+    const actual = this.comparable(value);
+    const hasValue = value !== undefined && value !== null;
+
+    for (const [operator, operand] of Object.entries(condition)) {
+      const expected = this.comparable(operand);
+      switch (operator) {
+        case 'eq':
+          if (actual !== expected) return false;
+          break;
+        case 'ne':
+          if (actual === expected) return false;
+          break;
+        case 'gt':
+          if (!hasValue || !(actual > expected)) return false;
+          break;
+        case 'gte':
+          if (!hasValue || !(actual >= expected)) return false;
+          break;
+        case 'lt':
+          if (!hasValue || !(actual < expected)) return false;
+          break;
+        case 'lte':
+          if (!hasValue || !(actual <= expected)) return false;
+          break;
+        case 'in':
+          if (!(operand as any[]).some(item => this.comparable(item) === actual)) return false;
+          break;
+        case 'notIn':
+          if ((operand as any[]).some(item => this.comparable(item) === actual)) return false;
+          break;
+        case 'contains':
+          if (!Array.isArray(value) || !value.some(item => this.comparable(item) === expected)) return false;
+          break;
+        case 'startsWith':
+          if (typeof value !== 'string' || !value.startsWith(operand as string)) return false;
+          break;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Values an index can match exactly for a condition, or null if it can't serve it
+   */
+  private indexLookupValues(condition: any): any[] | null {
+    if (!this.isOperatorCondition(condition)) return [condition];
+    if ('eq' in condition) return [condition.eq];
+    if ('in' in condition) return [...condition.in];
+    return null;
+  }
+
+  /**
+   * Range served by an index for a condition's gt/gte/lt/lte operators, if any
+   */
+  private conditionRange(condition: any): IndexRange | null {
+    if (!this.isOperatorCondition(condition)) return null;
+
+    const range: IndexRange = {};
+    if ('gte' in condition) range.lower = { value: condition.gte, inclusive: true };
+    if ('gt' in condition) range.lower = { value: condition.gt, inclusive: false };
+    if ('lte' in condition) range.upper = { value: condition.lte, inclusive: true };
+    if ('lt' in condition) range.upper = { value: condition.lt, inclusive: false };
+    return range.lower || range.upper ? range : null;
+  }
+
+  /**
+   * Whether after()/before() bounds can be applied to a date field's index
+   * Absent or null dates pass those filters, so the field must always hold a date
+   */
+  private isRequiredDateField(field: string): boolean {
+    const definition = this.schema[field];
+    if (!definition) return false;
+    const descriptor = this.describeField(definition);
+    return descriptor.type === 'date' && !descriptor.optional && !descriptor.nullable;
+  }
+
+  /**
+   * Every index that can serve a query, with the scans over it
+   *
+   * An index is usable when its leading fields are matched exactly (values or
+   * `in` lists) and/or the field after that prefix has a range or is the
+   * orderBy field.
+   */
+  private indexPaths(
+    options: QueryOptions<InferSchemaType<S>>,
+    position: CursorPosition | null
+  ): IndexPath[] {
+    const where: any = options.where || {};
+    const orderField = options.orderBy ? String(options.orderBy.field) : undefined;
+    const descending = options.orderBy?.direction === 'desc';
+
+    const rangeFor = (field: string): IndexRange | null => {
+      const range = this.conditionRange(where[field]) || {};
+      if (this.isRequiredDateField(field) && this.timeFields.includes(field)) {
+        if (options.after && !range.lower) range.lower = { value: options.after, inclusive: false };
+        if (options.before && !range.upper) range.upper = { value: options.before, inclusive: false };
+      }
+
+      // Resume an ordered scan at the cursor; ties on the value are skipped by id later
+      if (position && field === orderField) {
+        const bound = { value: position.value, inclusive: true };
+        if (descending) {
+          range.upper = this.tighterBound(range.upper, bound, 'upper');
+        } else {
+          range.lower = this.tighterBound(range.lower, bound, 'lower');
+        }
+      }
+      return range.lower || range.upper ? range : null;
+    };
+
+    const paths: IndexPath[] = [];
+
+    for (const fields of this.indexFields) {
+      // Equality prefix: leading fields matched exactly
+      const prefix: unknown[][] = [];
+      for (const field of fields) {
+        const values = where[field] !== undefined ? this.indexLookupValues(where[field]) : null;
+        if (!values) break;
+        prefix.push(values);
+      }
+
+      const next = fields[prefix.length];
+      const range = next !== undefined ? rangeFor(next) : null;
+
+      // Records missing an optional field are absent from its index, so only
+      // required fields can supply the full ordering. The field must also be
+      // the index's last, so equal values share one key and ties sort by id
+      const ordered = next !== undefined && next === orderField &&
+        next === fields[fields.length - 1] &&
+        !this.describeField(this.schema[next]).optional;
+
+      if (prefix.length === 0 && !range && !ordered) continue;
+
+      // Expand `in` lists into one scan per combination of prefix values
+      let combinations: unknown[][] = [[]];
+      for (const values of prefix) {
+        combinations = combinations.flatMap(combination => values.map(value => [...combination, value]));
+      }
+
+      const prefixFields = fields.slice(0, prefix.length);
+      const orderedByPrefix = orderField !== undefined && prefixFields.includes(orderField);
+
+      paths.push({
+        fields,
+        scans: combinations.map(equals => ({
+          fields,
+          equals,
+          range: range || {},
+          reverse: ordered && descending,
+        })),
+        sorted: combinations.length === 1 && (!orderField || ordered || orderedByPrefix),
+        covers: this.pathCovers(options, prefixFields, range ? next : undefined),
+        prefixLength: prefix.length,
+        ranged: range !== null,
+      });
+    }
+
+    return paths;
+  }
+
+  /**
+   * Date fields filtered by after()/before(): every date field but those the model manages
+   */
+  private get timeFields(): string[] {
+    return Object.keys(this.schema).filter(field =>
+      this.describeField(this.schema[field]).type === 'date' &&
+      !(this.softDelete && field === SOFT_DELETE_FIELD) &&
+      !(this.timestamps && (field === CREATED_AT_FIELD || field === UPDATED_AT_FIELD)) &&
+      !(this.expires && field === EXPIRES_AT_FIELD)
+    );
+  }
+
+  /**
+   * Whether scans with this equality prefix and range field enforce every
+   * where condition and after/before bound, leaving nothing to filter out
+   */
+  private pathCovers(
+    options: QueryOptions<InferSchemaType<S>>,
+    prefixFields: string[],
+    rangeField?: string
+  ): boolean {
+    const where: any = options.where || {};
+
+    for (const [field, condition] of Object.entries(where)) {
+      const operators = this.isOperatorCondition(condition) ? Object.keys(condition) : null;
+      if (prefixFields.includes(field)) {
+        if (operators && !(operators.length === 1 && (operators[0] === 'eq' || operators[0] === 'in'))) return false;
+        continue;
+      }
+      if (field === rangeField && operators) {
+        const lower = operators.filter(op => op === 'gt' || op === 'gte').length;
+        const upper = operators.filter(op => op === 'lt' || op === 'lte').length;
+        // Nulls sort below every value, so an upper bound alone admits them too
+        const nullable = this.describeField(this.schema[field]).nullable;
+        if (lower + upper === operators.length && lower <= 1 && upper <= 1 && (lower === 1 || !nullable)) continue;
+      }
+      return false;
+    }
+
+    if (options.after || options.before) {
+      // after()/before() filter every date field, so the range must be on the only one
+      const dateFields = this.timeFields;
+      if (dateFields.length !== 1 || dateFields[0] !== rangeField || where[rangeField] !== undefined) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Choose how to run a query
+   *
+   * With a limit, a sorted index walk that enforces every filter wins outright,
+   * since it stops after `limit` records. Otherwise each usable index is costed
+   * by reading its matching keys (up to PLAN_KEY_BUDGET per scan): the cheapest
+   * is used, or the intersection of several when that leaves fewer candidates.
+   * Falls back to a full scan when no index helps.
+   */
+  private async planQuery(
+    options: QueryOptions<InferSchemaType<S>>,
+    position: CursorPosition | null
+  ): Promise<ExecutionPlan> {
+    await this.prepareStorage();
+    // Indexes on fields with pending migrations miss records only upgraded on read
+    const pending = await this.pendingMigrationFields();
+    const paths = this.indexPaths(options, position).filter(path => !path.fields.some(field => pending.has(field)));
+    const name = (path: IndexPath) => path.fields.join('+');
+    const ordered = (path: IndexPath) => path.sorted && options.orderBy !== undefined;
+
+    if (options.limit) {
+      const bounded = paths
+        .filter(path => path.sorted && path.covers)
+        .sort((a, b) => b.prefixLength - a.prefixLength)[0];
+      if (bounded) {
+        return {
+          path: bounded,
+          summary: {
+            strategy: 'index',
+            indexes: [name(bounded)],
+            ordered: ordered(bounded),
+            keysRead: 0,
+            estimatedCandidates: options.limit,
+            considered: paths.map(path => ({
+              index: name(path),
+              estimatedCandidates: path === bounded ? options.limit! : null,
+            })),
+          },
+        };
+      }
+    }
+
+    // Cost each index by counting its matching entries; the entries read are reused to run the scan
+    let keysRead = 0;
+    const estimates = new Map<IndexPath, number | null>();
+    for (const path of paths) {
+      let estimate: number | null = null;
+      // An index used only for ordering matches every record, so there is nothing to count
+      if (path.prefixLength > 0 || path.ranged) {
+        estimate = 0;
+        for (const scan of path.scans) {
+          const page = await this.store.list<string>({ ...this.getIndexListOptions(scan), limit: PLAN_KEY_BUDGET + 1 });
+          keysRead += page.size;
+          scan.entries = [...page];
+          scan.complete = page.size <= PLAN_KEY_BUDGET;
+          if (!scan.complete) {
+            estimate = null;
+            break;
+          }
+          estimate += page.size;
+        }
+      }
+      estimates.set(path, estimate);
+    }
+
+    const considered = paths.map(path => ({ index: name(path), estimatedCandidates: estimates.get(path) ?? null }));
+    const costed = paths
+      .filter(path => estimates.get(path) !== null)
+      .sort((a, b) => estimates.get(a)! - estimates.get(b)! || Number(b.sorted) - Number(a.sorted));
+
+    if (costed.length > 0) {
+      const best = costed[0];
+      const idsOf = (path: IndexPath) => path.scans.flatMap(scan => scan.entries!.map(([, id]) => id));
+
+      // Intersect with each further index that narrows the candidates
+      let candidates = new Set(idsOf(best));
+      const used = [best];
+      for (const path of costed.slice(1)) {
+        const other = new Set(idsOf(path));
+        const narrowed = new Set([...candidates].filter(id => other.has(id)));
+        if (narrowed.size < candidates.size) {
+          candidates = narrowed;
+          used.push(path);
+        }
+      }
+
+      if (used.length > 1) {
+        return {
+          candidateIds: [...candidates],
+          summary: {
+            strategy: 'intersection',
+            indexes: used.map(name),
+            ordered: false,
+            keysRead,
+            estimatedCandidates: candidates.size,
+            considered,
+          },
+        };
+      }
+
+      return {
+        path: best,
+        summary: {
+          strategy: 'index',
+          indexes: [name(best)],
+          ordered: ordered(best),
+          keysRead,
+          estimatedCandidates: estimates.get(best)!,
+          considered,
+        },
+      };
+    }
+
+    // Nothing could be costed within budget: prefer the longest equality prefix, then a range, then order
+    const fallback = [...paths].sort((a, b) =>
+      b.prefixLength - a.prefixLength || Number(b.ranged) - Number(a.ranged) || Number(b.sorted) - Number(a.sorted)
+    )[0];
+    if (fallback) {
+      return {
+        path: fallback,
+        summary: {
+          strategy: 'index',
+          indexes: [name(fallback)],
+          ordered: ordered(fallback),
+          keysRead,
+          estimatedCandidates: null,
+          considered,
+        },
+      };
+    }
+
+    return {
+      summary: { strategy: 'scan', indexes: [], ordered: this.scansInIdOrder(options), keysRead, estimatedCandidates: null, considered },
+    };
+  }
+
+  /**
+   * The more restrictive of two range bounds on the same side
+   */
+  private tighterBound(
+    current: IndexRange['lower'],
+    candidate: NonNullable<IndexRange['lower']>,
+    side: 'lower' | 'upper'
+  ): NonNullable<IndexRange['lower']> {
+    if (!current) return candidate;
+    const currentKey = encodeIndexValue(current.value);
+    const candidateKey = encodeIndexValue(candidate.value);
+    if (currentKey === candidateKey) {
+      return current.inclusive ? candidate : current;
+    }
+    const candidateIsTighter = side === 'lower' ? candidateKey > currentKey : candidateKey < currentKey;
+    return candidateIsTighter ? candidate : current;
+  }
+
+  /**
+   * storage.list() options covering an index scan
+   */
+  private getIndexListOptions(scan: IndexScan): DurableObjectListOptions {
+    const prefix = this.getIndexPrefix(scan.fields) + encodeIndexTuple(scan.equals);
+    const listOptions: DurableObjectListOptions = { prefix, reverse: scan.reverse };
+    const { lower, upper } = scan.range;
+
+    if (lower) {
+      const encoded = encodeIndexValue(lower.value);
+      listOptions.start = prefix + (lower.inclusive ? encoded : encodedSuccessor(encoded));
+    }
+    if (upper) {
+      const encoded = encodeIndexValue(upper.value);
+      listOptions.end = prefix + (upper.inclusive ? encodedSuccessor(encoded) : encoded);
+    }
+    return listOptions;
+  }
+
+  /**
+   * Check a record against every condition of a where clause
+   */
+  private matchesWhere(record: InferSchemaType<S>, where: WhereClause<InferSchemaType<S>>): boolean {
+    return Object.entries(where).every(([key, condition]) =>
+      this.matchesCondition((record as any)[key], condition)
+    );
+  }
+
+  /**
+   * Check a record against the where clause and after/before bounds
+   */
+  private matchesQuery(
+    record: InferSchemaType<S>,
+    options: QueryOptions<InferSchemaType<S>>,
+    position: CursorPosition | null = null
+  ): boolean {
+    // Skip records at or before the pagination cursor
+    if (position && !this.isPastCursor(record, position, options.orderBy?.direction === 'desc')) {
+      return false;
+    }
+
+    if (!this.matchesDeleted(record, options.deleted)) {
+      return false;
+    }
+
+    if (this.isExpired(record)) {
+      return false;
+    }
+
+    // Filter by where clause (additional fields not covered by index)
+    if (options.where && !this.matchesWhere(record, options.where)) {
+      return false;
+    }
+
+    // Filter by date range (after/before)
+    if (options.after || options.before) {
+      for (const field of this.timeFields) {
+        const dateValue = (record as any)[field];
+        if (dateValue instanceof Date) {
+          if (options.after && dateValue <= options.after) return false;
+          if (options.before && dateValue >= options.before) return false;
+        }
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Sort key of a record value - the index encoding, so every ordering agrees with the indexes
+   */
+  private sortKey(value: unknown): string {
+    return encodeIndexValue(value);
+  }
+
+  /**
+   * Whether a record sorts strictly after a cursor position (ties broken by id)
+   */
+  private isPastCursor(record: InferSchemaType<S>, position: CursorPosition, descending: boolean): boolean {
+    const recordKey = this.sortKey((record as any)[position.field]);
+    const cursorKey = this.sortKey(position.value);
+    const id = (record as any).id;
+
+    let comparison = recordKey < cursorKey ? -1 : recordKey > cursorKey ? 1 : 0;
+    if (comparison === 0) {
+      comparison = id < position.id ? -1 : id > position.id ? 1 : 0;
+    }
+    return descending ? comparison < 0 : comparison > 0;
+  }
+
+  /**
+   * Decode a query's cursor, checking it was produced for the same sort order
+   */
+  private resolveCursor(options: QueryOptions<InferSchemaType<S>>): CursorPosition | null {
+    if (!options.cursor) return null;
+    const position = decodeCursor(options.cursor);
+    const orderField = options.orderBy ? String(options.orderBy.field) : options.search ? RELEVANCE_FIELD : 'id';
+    if (position.field !== orderField) {
+      throw new Error(`Cursor was created for orderBy '${position.field}', not '${orderField}'`);
+    }
+    return position;
+  }
+
+  /**
+   * Opaque cursor pointing just past a record in the given sort order
+   */
+  cursorFor(record: InferSchemaType<S>, field: keyof InferSchemaType<S> = 'id' as keyof InferSchemaType<S>): string {
+    return encodeCursor({ field: String(field), value: (record as any)[field], id: (record as any).id });
+  }
+
+  /**
+   * Walk an index range in key order, collecting matching records
+   * Entries sort by value and then id, and are read page by page, starting
+   * with any the planner already read. Stops as soon as `limit` matches are found
+   */
+  private async scanIndex(
+    scan: IndexScan,
+    options: QueryOptions<InferSchemaType<S>>,
+    position: CursorPosition | null,
+    limit?: number
+  ): Promise<InferSchemaType<S>[]> {
+    const listOptions = this.getIndexListOptions(scan);
+    const pageSize = limit ? Math.max(limit, INDEX_PAGE_SIZE) : SCAN_PAGE_SIZE;
+    const records: InferSchemaType<S>[] = [];
+
+    // Entry key of the cursor's record when the scan is ordered by the cursor field;
+    // entries up to it were returned by earlier pages and are skipped without loading
+    const cursorKey = position &&
+      scan.fields.length === scan.equals.length + 1 &&
+      scan.fields[scan.equals.length] === position.field
+      ? this.getIndexKey(scan.fields, [...scan.equals, position.value]) + encodeIndexValue(position.id)
+      : null;
+
+    let preloaded = scan.entries;
+    while (true) {
+      const page = preloaded || [...await this.store.list<string>({ ...listOptions, limit: pageSize })];
+      const exhausted = preloaded ? scan.complete : page.length < pageSize;
+      preloaded = undefined;
+
+      const pageIds: string[] = [];
+      for (const [key, id] of page) {
+        if (cursorKey && (scan.reverse ? key >= cursorKey : key <= cursorKey)) continue;
+        pageIds.push(id);
+      }
+
+      // With a limit, never load more records than could still be returned
+      let next = 0;
+      while (next < pageIds.length) {
+        const batchSize = limit ? Math.min(MAX_KEYS_PER_CALL, limit - records.length) : MAX_KEYS_PER_CALL;
+        const batch = pageIds.slice(next, next + batchSize);
+        next += batch.length;
+        for (const record of await this.loadRecords(batch, this.queryLargeFields(options))) {
+          if (this.matchesQuery(record, options, position)) {
+            records.push(record);
+          }
+        }
+        if (limit && records.length >= limit) {
+          return records;
+        }
+      }
+
+      if (exhausted || page.length === 0) break;
+
+      // Continue strictly after the last key read
+      const lastKey = page[page.length - 1][0];
+      if (scan.reverse) {
+        listOptions.end = lastKey;
+      } else {
+        listOptions.start = lastKey + '\x00';
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Whether a full scan returns records in the query's order: record keys sort
+   * by id, so time-sortable ids make a scan ordered by id a creation-order scan
+   */
+  private scansInIdOrder(options: QueryOptions<InferSchemaType<S>>): boolean {
+    return options.orderBy !== undefined && String(options.orderBy.field) === 'id';
+  }
+
+  /**
+   * Read every record of the table page by page, using the values list() returns
+   * Without orderBy, or ordered by id, stops once `limit` matches are found
+   */
+  private async scanTable(
+    options: QueryOptions<InferSchemaType<S>>,
+    position: CursorPosition | null
+  ): Promise<InferSchemaType<S>[]> {
+    const byId = this.scansInIdOrder(options);
+    const reverse = byId && options.orderBy!.direction === 'desc';
+    const listOptions: DurableObjectListOptions = { prefix: `${this.tableName}:`, limit: SCAN_PAGE_SIZE, reverse };
+    const limit = !options.orderBy || byId ? options.limit : undefined;
+    const records: InferSchemaType<S>[] = [];
+
+    // Resume an id-ordered scan right after the cursor's record
+    if (byId && position) {
+      if (reverse) {
+        listOptions.end = this.getRecordKey(position.id);
+      } else {
+        listOptions.startAfter = this.getRecordKey(position.id);
+      }
+    }
+
+    while (true) {
+      const page = await this.store.list(listOptions);
+      const lastKey = [...page.keys()].pop();
+
+      for (const data of await this.withLargeFields([...page.values()], this.queryLargeFields(options))) {
+        const record = this.deserialize(data);
+        if (this.matchesQuery(record, options, position)) {
+          records.push(record);
+          if (limit && records.length >= limit) {
+            return records;
+          }
+        }
+      }
+
+      if (page.size < SCAN_PAGE_SIZE || lastKey === undefined) break;
+      if (reverse) {
+        listOptions.end = lastKey;
+      } else {
+        listOptions.startAfter = lastKey;
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * BM25 relevance of every record containing all the words of a search
+   * With `prefix`, the last word also matches longer words starting with it.
+   * Scores against `frozen` statistics when given, for words they cover, and
+   * returns the statistics used
+   */
+  private async scoreSearch(
+    { text, prefix = false }: SearchQuery,
+    frozen: SearchStats | null = null
+  ): Promise<{ scores: Map<string, number>; stats: SearchStats }> {
+    if (this.searchFields.length === 0) {
+      throw new Error(`Table '${this.tableName}' has no searchable fields`);
+    }
+
+    const tokens = tokenize(text);
+    const totals = frozen ?? await this.store.get<SearchTotals>(this.getMetaKey('searchTotals'));
+    if (tokens.length === 0 || !totals || totals.documents === 0) {
+      return { scores: new Map(), stats: { documents: 0, tokens: 0, matching: {} } };
+    }
+    // Keyed by search word, so no prototype: any word is a plain key
+    const stats: SearchStats = { documents: totals.documents, tokens: totals.tokens, matching: Object.create(null) };
+    const averageLength = totals.tokens / totals.documents;
+
+    // Each word once, flagged when it may match as a prefix
+    const words = new Map(tokens.map(token => [token, false]));
+    if (prefix) {
+      words.set(tokens[tokens.length - 1], true);
+    }
+
+    let scores: Map<string, number> | null = null;
+    for (const [word, partial] of words) {
+      // Entries of each indexed word the search word matches, as [id, count, length]
+      const postings = new Map<string, [string, number, number][]>();
+      const listOptions: DurableObjectListOptions = { prefix: this.getSearchPrefix(word, partial), limit: SCAN_PAGE_SIZE };
+      while (true) {
+        const page = await this.store.list<[number, number]>(listOptions);
+        for (const [key, [count, length]] of page) {
+          const [term, id] = decodeIndexTuple(key.slice(this.getSearchPrefix().length)) as [string, string];
+          if (!postings.has(term)) postings.set(term, []);
+          postings.get(term)!.push([id, count, length]);
+        }
+        if (page.size < SCAN_PAGE_SIZE) break;
+        listOptions.startAfter = [...page.keys()].pop();
+      }
+
+      // A prefix counts the records holding any word it expands to, so the
+      // statistics keep one count per search word however many words match
+      const holders = new Set([...postings.values()].flatMap(entries => entries.map(([id]) => id)));
+      const matching = frozen && Object.prototype.hasOwnProperty.call(frozen.matching, word)
+        ? frozen.matching[word]
+        : holders.size;
+      stats.matching[word] = matching;
+
+      const matched = new Map<string, number>();
+      for (const entries of postings.values()) {
+        for (const [id, count, length] of entries) {
+          const weight = bm25(count, length, matching, totals.documents, averageLength);
+          matched.set(id, (matched.get(id) ?? 0) + weight);
+        }
+      }
+
+      // Records must contain every word
+      if (scores === null) {
+        scores = matched;
+      } else {
+        for (const [id, score] of scores) {
+          const weight = matched.get(id);
+          if (weight === undefined) {
+            scores.delete(id);
+          } else {
+            scores.set(id, score + weight);
+          }
+        }
+      }
+      if (scores.size === 0) break;
+    }
+    return { scores: scores ?? new Map(), stats };
+  }
+
+  /**
+   * Records matching a search and the rest of a query
+   * Without orderBy they come back by relevance, best first with ties broken
+   * by id, and a ranked cursor resumes after its relevance and id, scored with
+   * the statistics of the page it came from
+   */
+  private async searchRecords(
+    options: QueryOptions<InferSchemaType<S>>,
+    position: CursorPosition | null
+  ): Promise<InferSchemaType<S>[]> {
+    await this.prepareStorage();
+    const ranked = !options.orderBy;
+    const after = ranked && position ? position.value as SearchRank : null;
+    const frozen = after?.stats;
+    if (after && (
+      typeof after.score !== 'number' ||
+      typeof frozen?.documents !== 'number' ||
+      typeof frozen.tokens !== 'number' ||
+      typeof frozen.matching !== 'object' || frozen.matching === null
+    )) {
+      throw new Error(`Invalid cursor: ${options.cursor}`);
+    }
+
+    const { scores, stats } = await this.scoreSearch(options.search!, frozen);
+    const records: InferSchemaType<S>[] = [];
+    for (const record of await this.loadRecords([...scores.keys()], this.queryLargeFields(options))) {
+      const id = (record as any).id as string;
+      const score = scores.get(id)!;
+      if (after && !(score < after.score || (score === after.score && id > position!.id))) {
+        continue;
+      }
+      if (this.matchesQuery(record, options, ranked ? null : position)) {
+        searchRanks.set(record, { score, stats });
+        records.push(record);
+      }
+    }
+
+    if (ranked) {
+      const idOf = (record: InferSchemaType<S>) => (record as any).id as string;
+      records.sort((a, b) =>
+        searchRanks.get(b)!.score - searchRanks.get(a)!.score || (idOf(a) < idOf(b) ? -1 : idOf(a) > idOf(b) ? 1 : 0)
+      );
+    }
+    return records;
+  }
+
+  /**
+   * Query builder - returns all matching records
+   * With `select`, records hold only the selected fields
+   */
+  async query<K extends keyof InferSchemaType<S>>(
+    options: QueryOptions<InferSchemaType<S>> & { select: readonly K[] }
+  ): Promise<Pick<InferSchemaType<S>, K>[]>;
+  async query(options?: QueryOptions<InferSchemaType<S>>): Promise<InferSchemaType<S>[]>;
+  async query(options: QueryOptions<InferSchemaType<S>> = {}): Promise<InferSchemaType<S>[]> {
+    const position = this.resolveCursor(options);
+    const plan = options.search ? null : await this.planQuery(options, position);
+    let records: InferSchemaType<S>[] = [];
+    let sorted = false;
+
+    if (!plan) {
+      // Records holding every search word, ranked unless ordered otherwise
+      records = await this.searchRecords(options, position);
+      sorted = !options.orderBy;
+    } else if (plan.candidateIds) {
+      // Ids matched by every intersected index
+      for (const record of await this.loadRecords(plan.candidateIds, this.queryLargeFields(options))) {
+        if (this.matchesQuery(record, options, position)) {
+          records.push(record);
+        }
+      }
+    } else if (plan.path) {
+      // Index scans - a single scan returns records in index order
+      sorted = plan.path.sorted;
+      const seen = new Set<string>();
+      for (const scan of plan.path.scans) {
+        for (const record of await this.scanIndex(scan, options, position, sorted ? options.limit : undefined)) {
+          const id = (record as any).id;
+          if (!seen.has(id)) {
+            seen.add(id);
+            records.push(record);
+          }
+        }
+      }
+    } else {
+      // If no index was used, scan all records (slower)
+      records = await this.scanTable(options, position);
+      sorted = this.scansInIdOrder(options);
+    }
+
+    let filtered = records;
+
+    // Sort (ties broken by id so pagination is stable)
+    if (options.orderBy && !sorted) {
+      const { field, direction } = options.orderBy;
+      const keyed = filtered.map(record => ({
+        record,
+        key: this.sortKey((record as any)[field]),
+        id: (record as any).id as string,
+      }));
+      keyed.sort((a, b) => {
+        let comparison = 0;
+        if (a.key < b.key) comparison = -1;
+        if (a.key > b.key) comparison = 1;
+        if (comparison === 0) {
+          comparison = a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+        }
+        
+        return direction === 'desc' ? -comparison : comparison;
+      });
+      filtered = keyed.map(entry => entry.record);
+    }
+
+    // Apply limit
+    if (options.limit) {
+      filtered = filtered.slice(0, options.limit);
+    }
+
+    if (options.include) {
+      await this.loadIncludes(filtered, options.include);
+    }
+
+    // The overloads narrow the return type to the selected fields
+    const { select } = options;
+    if (select) {
+      const fields = [...select, ...(options.include ?? [])] as (keyof InferSchemaType<S>)[];
+      return filtered.map(record => {
+        const selected = selectFields(record, fields) as InferSchemaType<S>;
+        const rank = searchRanks.get(record);
+        if (rank) searchRanks.set(selected, rank);
+        return selected;
+      });
+    }
+
+    return filtered;
+  }
+
+  /**
+   * Describe how a query would run: the strategy, indexes used, index keys
+   * read while planning and the number of records expected to be loaded
+   */
+  async explain(options: QueryOptions<InferSchemaType<S>> = {}): Promise<QueryPlan> {
+    if (options.search) {
+      this.resolveCursor(options);
+      return {
+        strategy: 'search',
+        indexes: ['search'],
+        ordered: !options.orderBy,
+        keysRead: 0,
+        estimatedCandidates: null,
+        considered: [],
+      };
+    }
+    const plan = await this.planQuery(options, this.resolveCursor(options));
+    return plan.summary;
+  }
+
+  /**
+   * Compute aggregates over the records a query matches, per group of `groupBy` values
+   * Served from index keys alone when one index holds every grouped and
+   * aggregated field and enforces the whole query; otherwise records are loaded
+   * @internal Used by QueryBuilder
+   */
+  async aggregate(
+    options: QueryOptions<InferSchemaType<S>>,
+    groupBy: string[],
+    specs: Record<string, AggregateSpec<InferSchemaType<S>>>
+  ): Promise<Record<string, unknown>[]> {
+    const aggregates = Object.entries(specs).map(([name, spec]) => {
+      if (spec === 'count') return { name, op: 'count', field: '' };
+      const [op, field] = Object.entries(spec)[0] as [string, string];
+      return { name, op, field };
+    });
+
+    for (const field of [...groupBy, ...aggregates.map(({ field }) => field).filter(Boolean)]) {
+      if (field !== 'id' && !this.schema[field]) {
+        throw new Error(`Unknown field '${field}' in table '${this.tableName}'`);
+      }
+    }
+    for (const { op, field } of aggregates) {
+      if ((op === 'sum' || op === 'avg') && this.describeField(this.schema[field]).type !== 'number') {
+        throw new Error(`Cannot ${op} non-number field '${field}'`);
+      }
+    }
+
+    const groups = new Map<string, AggregateGroup>();
+    const createGroup = (values: Record<string, unknown>): AggregateGroup => ({
+      values,
+      count: 0,
+      totals: aggregates.map(() => 0),
+      counts: aggregates.map(() => 0),
+      extremes: aggregates.map(() => null),
+    });
+
+    const add = (row: any) => {
+      const groupKey = encodeIndexTuple(groupBy.map(field => row[field]));
+      let group = groups.get(groupKey);
+      if (!group) {
+        // Records missing a grouped field fall in its null group
+        group = createGroup(Object.fromEntries(groupBy.map(field => [field, row[field] ?? null])));
+        groups.set(groupKey, group);
+      }
+      group.count++;
+
+      for (const [i, { op, field }] of aggregates.entries()) {
+        const value = row[field];
+        if (op === 'count' || value === undefined || value === null) continue;
+        if (op === 'sum' || op === 'avg') {
+          group.totals[i] += value;
+          group.counts[i]++;
+          continue;
+        }
+        const extreme = group.extremes[i];
+        if (extreme === null ||
+          (op === 'min' && this.sortKey(value) < this.sortKey(extreme)) ||
+          (op === 'max' && this.sortKey(value) > this.sortKey(extreme))) {
+          group.extremes[i] = value;
+        }
+      }
+    };
+
+    const needed = [...groupBy, ...aggregates.map(({ field }) => field).filter(field => field && field !== 'id')];
+    const scans = await this.keyOnlyScans(options, needed);
+    if (scans) {
+      for (const scan of scans) {
+        await this.walkIndexRows(scan, add);
+      }
+    } else {
+      const select = [...needed, 'id'] as (keyof InferSchemaType<S>)[];
+      (await this.query({ ...options, select })).forEach(add);
+    }
+
+    // A query without groups still answers with one row, even when nothing matched
+    if (groupBy.length === 0 && groups.size === 0) {
+      groups.set('', createGroup({}));
+    }
+
+    return [...groups.keys()].sort().map(key => {
+      const group = groups.get(key)!;
+      const row: Record<string, unknown> = { ...group.values };
+      aggregates.forEach(({ name, op }, i) => {
+        if (op === 'count') row[name] = group.count;
+        else if (op === 'sum') row[name] = group.totals[i];
+        else if (op === 'avg') row[name] = group.counts[i] > 0 ? group.totals[i] / group.counts[i] : null;
+        else row[name] = group.extremes[i];
+      });
+      return row;
+    });
+  }
+
+  /**
+   * Index scans that answer an aggregate from their keys alone, or null when records must be loaded
+   *
+   * The index must hold every needed field, enforce the whole query, and
+   * have an entry for every record: each field the query leaves unconstrained
+   * must be required. Soft-deleted and expired records still have entries, and
+   * entries may hold values older migrations have since changed, so those
+   * tables always load records.
+   */
+  private async keyOnlyScans(options: QueryOptions<InferSchemaType<S>>, needed: string[]): Promise<IndexScan[] | null> {
+    if (options.limit || options.cursor || options.search || options.deleted === 'only' || this.softDeletes || this.expiring) {
+      return null;
+    }
+
+    await this.prepareStorage();
+    if (this.schemaVersion > 1) {
+      const tableVersion = await this.store.get<number>(this.getMetaKey('schemaVersion')) ?? 1;
+      if (tableVersion < this.schemaVersion) return null;
+    }
+
+    const where: any = options.where || {};
+    const holdsEveryRecord = (fields: string[]) =>
+      needed.every(field => fields.includes(field)) &&
+      fields.every(field => where[field] !== undefined || !this.describeField(this.schema[field]).optional);
+
+    if (Object.keys(where).length === 0 && !options.after && !options.before) {
+      const fields = this.indexFields.find(holdsEveryRecord);
+      return fields ? [{ fields, equals: [], range: {}, reverse: false }] : null;
+    }
+
+    const path = this.indexPaths(options, null)
+      .filter(path => path.covers && holdsEveryRecord(path.fields))
+      .sort((a, b) => b.prefixLength - a.prefixLength)[0];
+    if (!path) return null;
+
+    // Repeated `in` values expand into identical scans; walk each once
+    const unique = new Map(path.scans.map(scan => [encodeIndexTuple(scan.equals), scan]));
+    return [...unique.values()];
+  }
+
+  /**
+   * Walk every entry of an index scan, passing each as its decoded field values and id
+   */
+  private async walkIndexRows(scan: IndexScan, visit: (row: Record<string, unknown>) => void): Promise<void> {
+    const listOptions = this.getIndexListOptions(scan);
+    const prefix = this.getIndexPrefix(scan.fields);
+    let start = listOptions.start;
+
+    while (true) {
+      const page = await this.store.list<string>({ ...listOptions, start, limit: SCAN_PAGE_SIZE });
+      for (const [key, id] of page) {
+        const values = decodeIndexTuple(key.slice(prefix.length));
+        const row: Record<string, unknown> = { id };
+        scan.fields.forEach((field, i) => {
+          const isDate = this.describeField(this.schema[field]).type === 'date';
+          row[field] = isDate && typeof values[i] === 'number' ? new Date(values[i] as number) : values[i];
+        });
+        visit(row);
+      }
+      if (page.size < SCAN_PAGE_SIZE) break;
+      start = [...page.keys()].pop()! + '\x00';
+    }
+  }
+
+  /**
+   * Query builder with fluent API
+   */
+  where(conditions: WhereClause<InferSchemaType<S>>): QueryBuilder<S, InferSchemaType<S>, this['relations']> {
+    return new QueryBuilder(this, { where: conditions });
+  }
+
+  /**
+   * Get all records
+   */
+  async all(): Promise<InferSchemaType<S>[]> {
+    return this.query();
+  }
+
+  /**
+   * Count all records, except soft-deleted and expired ones
+   */
+  async count(): Promise<number> {
+    const prefix = `${this.tableName}:`;
+    const allKeys = await this.store.list<any>({ prefix });
+    if (!this.softDeletes && !this.expiring) {
+      return allKeys.size;
+    }
+
+    const now = Date.now();
+    let count = 0;
+    for (const data of allKeys.values()) {
+      const expired = this.expiring && data[EXPIRES_AT_FIELD] != null && Date.parse(data[EXPIRES_AT_FIELD]) <= now;
+      if (!expired && !(this.softDeletes && data[SOFT_DELETE_FIELD] != null)) count++;
+    }
+    return count;
+  }
+}
+
+/**
+ * Handle passed to DOModel.transaction() closures
+ */
+export class Transaction {
+  private txn: DurableObjectTransaction;
+
+  constructor(txn: DurableObjectTransaction) {
+    this.txn = txn;
+  }
+
+  /**
+   * Bind a model to this transaction so its reads and writes join it
+   */
+  bind<M extends DOModel<any>>(model: M): M {
+    return model.withTransaction(this.txn);
+  }
+
+  /**
+   * Discard every write made in this transaction
+   */
+  rollback(): void {
+    this.txn.rollback();
+    pendingChanges.get(this.txn)?.splice(0);
+    pendingChanges.set(this.txn, null);
+  }
+}
+
+/**
  * Fluent query builder
+ * R is the type of the records returned, narrowed by select() and extended by
+ * include(); Rel holds the model's relations
  */
-export class QueryBuilder<S extends SchemaDefinition> {
+export class QueryBuilder<
+  S extends SchemaDefinition,
+  R = InferSchemaType<S>,
+  Rel extends Readonly<Record<string, RelationDefinition>> = Readonly<Record<string, RelationDefinition>>
+> {
   private model: DOModel<S>;
   private options: QueryOptions<InferSchemaType<S>>;
 
@@ -393,32 +3650,204 @@ export class QueryBuilder<S extends SchemaDefinition> {
     this.options = options;
   }
 
-  where(conditions: Partial<InferSchemaType<S>>): QueryBuilder<S> {
+  where(conditions: WhereClause<InferSchemaType<S>>): QueryBuilder<S, R, Rel> {
     this.options.where = { ...this.options.where, ...conditions };
     return this;
   }
 
-  after(date: Date): QueryBuilder<S> {
+  after(date: Date): QueryBuilder<S, R, Rel> {
     this.options.after = date;
     return this;
   }
 
-  before(date: Date): QueryBuilder<S> {
+  before(date: Date): QueryBuilder<S, R, Rel> {
     this.options.before = date;
     return this;
   }
 
-  limit(count: number): QueryBuilder<S> {
+  limit(count: number): QueryBuilder<S, R, Rel> {
     this.options.limit = count;
     return this;
   }
 
-  orderBy(field: keyof InferSchemaType<S>, direction: 'asc' | 'desc' = 'asc'): QueryBuilder<S> {
+  orderBy(field: keyof InferSchemaType<S>, direction: 'asc' | 'desc' = 'asc'): QueryBuilder<S, R, Rel> {
     this.options.orderBy = { field, direction };
     return this;
   }
 
-  async execute(): Promise<InferSchemaType<S>[]> {
-    return this.model.query(this.options);
+  /**
+   * Include soft-deleted records
+   */
+  withDeleted(): QueryBuilder<S, R, Rel> {
+    this.options.deleted = 'include';
+    return this;
+  }
+
+  /**
+   * Return only soft-deleted records
+   */
+  onlyDeleted(): QueryBuilder<S, R, Rel> {
+    this.options.deleted = 'only';
+    return this;
+  }
+
+  /**
+   * Resume after a cursor returned by paginate()
+   */
+  cursor(cursor: string | null | undefined): QueryBuilder<S, R, Rel> {
+    this.options.cursor = cursor || undefined;
+    return this;
+  }
+
+  /**
+   * Return only these fields; large fields not selected are never read
+   */
+  select<K extends keyof InferSchemaType<S>>(
+    fields: readonly K[]
+  ): QueryBuilder<S, Pick<InferSchemaType<S>, K> & Omit<R, keyof InferSchemaType<S>>, Rel> {
+    this.options.select = [...fields];
+    return this as any;
+  }
+
+  /**
+   * Load a relation onto every record: the related record (or null) for
+   * belongsTo, a list for hasMany and manyToMany. Each relation is loaded with
+   * one batched read, however many records the query returns
+   */
+  include<N extends keyof Rel & string>(name: N): QueryBuilder<S, R & { [K in N]: IncludedRecords<Rel[N]> }, Rel> {
+    this.options.include = [...(this.options.include ?? []), name];
+    return this as any;
+  }
+
+  /**
+   * Keep records containing every word of `text` in their searchable fields
+   * Results are ranked by relevance (BM25), best first, unless orderBy() is
+   * set. With `prefix`, the last word also matches longer words, so partial
+   * input finds results as it is typed
+   */
+  search(text: string, options: { prefix?: boolean } = {}): QueryBuilder<S, R, Rel> {
+    this.options.search = { text, prefix: options.prefix };
+    return this;
+  }
+
+  async execute(): Promise<R[]> {
+    return this.model.query(this.options) as Promise<R[]>;
+  }
+
+  /**
+   * Show the plan execute() would use, without loading records
+   */
+  async explain(): Promise<QueryPlan> {
+    return this.model.explain(this.options);
+  }
+
+  /**
+   * Fetch one page of results plus a cursor for the next page
+   * Without orderBy(), pages are ordered by id, or by relevance when searching
+   */
+  async paginate(pageSize: number = this.options.limit || 50): Promise<Page<R>> {
+    const ranked = this.options.search && !this.options.orderBy;
+    const orderBy = ranked
+      ? undefined
+      : this.options.orderBy || { field: 'id' as keyof InferSchemaType<S>, direction: 'asc' as const };
+
+    // The cursor needs the sort field and id, whether or not they were selected
+    const { select, include = [] } = this.options;
+    const cursorSelect = select && [...new Set([...select, ...(orderBy ? [orderBy.field] : []), 'id' as keyof InferSchemaType<S>])];
+
+    // Fetch one extra record to learn whether another page exists
+    const records = await this.model.query({ ...this.options, select: cursorSelect, orderBy, limit: pageSize + 1 });
+    const hasMore = records.length > pageSize;
+    const items = records.slice(0, pageSize);
+    const last = items[items.length - 1];
+
+    return {
+      items: (select ? items.map(record => selectFields(record, [...select, ...include] as typeof select)) : items) as R[],
+      nextCursor: hasMore && last ? (orderBy ? this.model.cursorFor(last, orderBy.field) : relevanceCursor(last)) : null,
+      hasMore,
+    };
+  }
+
+  /**
+   * Count matching records, from index keys alone when an index covers the query
+   */
+  async count(): Promise<number> {
+    const [row] = await this.model.aggregate(this.options, [], { count: 'count' });
+    return row.count as number;
+  }
+
+  /**
+   * Sum a number field over matching records; 0 when none hold a value
+   */
+  async sum(field: keyof InferSchemaType<S>): Promise<number> {
+    const [row] = await this.model.aggregate(this.options, [], { sum: { sum: field } });
+    return row.sum as number;
+  }
+
+  /**
+   * Average a number field over matching records that hold a value; null when none do
+   */
+  async avg(field: keyof InferSchemaType<S>): Promise<number | null> {
+    const [row] = await this.model.aggregate(this.options, [], { avg: { avg: field } });
+    return row.avg as number | null;
+  }
+
+  /**
+   * Smallest value of a field in index order; null when no record holds one
+   */
+  async min<F extends keyof InferSchemaType<S>>(field: F): Promise<NonNullable<InferSchemaType<S>[F]> | null> {
+    const [row] = await this.model.aggregate(this.options, [], { min: { min: field } });
+    return row.min as NonNullable<InferSchemaType<S>[F]> | null;
+  }
+
+  /**
+   * Largest value of a field in index order; null when no record holds one
+   */
+  async max<F extends keyof InferSchemaType<S>>(field: F): Promise<NonNullable<InferSchemaType<S>[F]> | null> {
+    const [row] = await this.model.aggregate(this.options, [], { max: { max: field } });
+    return row.max as NonNullable<InferSchemaType<S>[F]> | null;
+  }
+
+  /**
+   * Distinct values of a field among matching records, in index order
+   * Records missing the field contribute null
+   */
+  async distinct<F extends keyof InferSchemaType<S>>(field: F): Promise<InferSchemaType<S>[F][]> {
+    const rows = await this.model.aggregate(this.options, [String(field)], {});
+    return rows.map(row => row[field as string] as InferSchemaType<S>[F]);
+  }
+
+  /**
+   * Group matching records by one or more fields, then call aggregate()
+   */
+  groupBy<G extends keyof InferSchemaType<S>>(fields: G | readonly G[]): GroupedQuery<S, G> {
+    const list = (Array.isArray(fields) ? fields : [fields]) as G[];
+    return new GroupedQuery(this.model, this.options, list);
+  }
+}
+
+/**
+ * A query grouped by QueryBuilder.groupBy(), awaiting its aggregates
+ */
+export class GroupedQuery<S extends SchemaDefinition, G extends keyof InferSchemaType<S>> {
+  private model: DOModel<S>;
+  private options: QueryOptions<InferSchemaType<S>>;
+  private fields: G[];
+
+  constructor(model: DOModel<S>, options: QueryOptions<InferSchemaType<S>>, fields: G[]) {
+    this.model = model;
+    this.options = options;
+    this.fields = fields;
+  }
+
+  /**
+   * One row per distinct combination of the grouped values, ordered by them,
+   * holding those values and each named aggregate
+   */
+  async aggregate<A extends Record<string, AggregateSpec<InferSchemaType<S>>>>(
+    specs: A
+  ): Promise<Array<Pick<InferSchemaType<S>, G> & AggregateValues<InferSchemaType<S>, A>>> {
+    const rows = await this.model.aggregate(this.options, this.fields.map(String), specs);
+    return rows as Array<Pick<InferSchemaType<S>, G> & AggregateValues<InferSchemaType<S>, A>>;
   }
 }
@@ -0,0 +1,55 @@
+/**
+ * Full-text search helpers for DO-ORM
+ *
+ * Text is split into lowercase words of letters and digits. Matches are
+ * ranked with BM25: a word counts for more when it is frequent in a record
+ * relative to the record's length, and when few records contain it.
+ */
+
+// How quickly repeats of a word stop adding to its weight
+const BM25_K1 = 1.2;
+
+// How strongly long records are penalised (0 = not at all, 1 = fully)
+const BM25_B = 0.75;
+
+/**
+ * Words of a text, lowercased, in order
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 0);
+}
+
+/**
+ * Number of times each word occurs
+ */
+export function termFrequencies(tokens: string[]): Map<string, number> {
+  const frequencies = new Map<string, number>();
+  for (const token of tokens) {
+    frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+  }
+  return frequencies;
+}
+
+/**
+ * BM25 weight of a word in one record
+ * @param frequency - occurrences of the word in the record
+ * @param length - words in the record
+ * @param matching - records containing the word
+ * @param documents - records indexed
+ * @param averageLength - mean words per indexed record
+ */
+export function bm25(
+  frequency: number,
+  length: number,
+  matching: number,
+  documents: number,
+  averageLength: number
+): number {
+  const idf = Math.log(1 + (documents - matching + 0.5) / (matching + 0.5));
+  const norm = 1 - BM25_B + BM25_B * (length / averageLength);
+  return idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * norm);
+}
@@ -2,14 +2,102 @@
  * Type definitions for DO-ORM
  */
 
+import type { Transaction, DOModel } from './index';
+
 export type FieldType = 'string' | 'number' | 'boolean' | 'date' | 'object' | 'array';
 
+/**
+ * Full field declaration, for fields that need more than a bare type
+ */
+export interface FieldDescriptor {
+  type: FieldType;
+  /** Field may be absent from the record */
+  optional?: boolean;
+  /** Field may hold null */
+  nullable?: boolean;
+  /** Value used by create() when the field is absent; functions are called per record */
+  default?: unknown;
+  /** Allowed values; narrows the inferred type to a literal union */
+  enum?: readonly (string | number)[];
+  /** Numeric lower bound (inclusive) */
+  min?: number;
+  /** Numeric upper bound (inclusive) */
+  max?: number;
+  /** Number must be an integer */
+  integer?: boolean;
+  /** Minimum string length */
+  minLength?: number;
+  /** Maximum string length */
+  maxLength?: number;
+  /** String must match this pattern */
+  pattern?: RegExp;
+  /** Minimum array length */
+  minItems?: number;
+  /** Maximum array length */
+  maxItems?: number;
+  /** Custom check; return false or an error message to reject the value */
+  validate?: (value: any) => boolean | string;
+  /** Sub-schema for 'object' fields */
+  schema?: SchemaDefinition;
+  /** Element definition for 'array' fields */
+  items?: FieldDefinition;
+  /** Index the words of this string field for QueryBuilder.search() */
+  searchable?: boolean;
+}
+
+export type FieldDefinition = FieldType | FieldDescriptor;
+
 export interface SchemaDefinition {
-  [key: string]: FieldType;
+  [key: string]: FieldDefinition;
+}
+
+/**
+ * Operators available to every filterable field
+ */
+export interface EqualityOperators<V> {
+  eq?: V;
+  ne?: V;
+  in?: readonly V[];
+  notIn?: readonly V[];
 }
 
+/**
+ * Operators for ordered values (numbers, dates and strings)
+ */
+export interface RangeOperators<V> {
+  gt?: V;
+  gte?: V;
+  lt?: V;
+  lte?: V;
+}
+
+/**
+ * Operators allowed on a field, chosen by the field's value type
+ */
+export type FieldOperators<V> = [NonNullable<V>] extends [readonly (infer E)[]]
+  ? { contains?: E }
+  : [NonNullable<V>] extends [string]
+    ? EqualityOperators<V> & RangeOperators<NonNullable<V>> & { startsWith?: string }
+    : [NonNullable<V>] extends [number | Date]
+      ? EqualityOperators<V> & RangeOperators<NonNullable<V>>
+      : [NonNullable<V>] extends [boolean]
+        ? EqualityOperators<V>
+        : never;
+
+/**
+ * Where clause - each field matches a value exactly or through operators
+ */
+export type WhereClause<T> = {
+  [K in keyof T]?: T[K] | FieldOperators<T[K]>;
+};
+
+/**
+ * An index on one field, or a compound index on several fields in order
+ */
+export type IndexDefinition<T> = keyof T | readonly (keyof T)[];
+
 export interface QueryOptions<T> {
-  where?: Partial<T>;
+  where?: WhereClause<T>;
   after?: Date;
   before?: Date;
   limit?: number;
@@ -17,18 +105,381 @@ export interface QueryOptions<T> {
     field: keyof T;
     direction: 'asc' | 'desc';
   };
+  /** Opaque cursor from a previous page; results start after it */
+  cursor?: string;
+  /** Soft-deleted records to return: excluded by default */
+  deleted?: 'exclude' | 'include' | 'only';
+  /** Fields to return; large fields not selected are never read */
+  select?: readonly (keyof T)[];
+  /** Relations to load onto each record */
+  include?: readonly string[];
+  /** Full-text search over searchable fields; results are ranked by relevance unless orderBy is set */
+  search?: SearchQuery;
+}
+
+/**
+ * Full-text search terms, from QueryBuilder.search()
+ */
+export interface SearchQuery {
+  /** Text to search for; records must contain every word */
+  text: string;
+  /** Let the last word also match longer words starting with it, for search-as-you-type */
+  prefix?: boolean;
+}
+
+/**
+ * One page of results from QueryBuilder.paginate()
+ */
+export interface Page<T> {
+  items: T[];
+  /** Pass to cursor() to fetch the next page; null on the last page */
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+/**
+ * How a query will be executed, from QueryBuilder.explain()
+ */
+export interface QueryPlan {
+  /**
+   * 'index' walks one index, 'intersection' intersects the ids of several,
+   * 'scan' reads every record, 'search' reads the full-text index
+   */
+  strategy: 'index' | 'intersection' | 'scan' | 'search';
+  /** Indexes used, named by their fields joined with '+' */
+  indexes: string[];
+  /** Whether records come back in orderBy order without an in-memory sort */
+  ordered: boolean;
+  /** Index keys read while planning */
+  keysRead: number;
+  /** Records the plan expects to load; null when unknown */
+  estimatedCandidates: number | null;
+  /** Every index that could serve the query, with its estimate */
+  considered: Array<{ index: string; estimatedCandidates: number | null }>;
+}
+
+/**
+ * One aggregate computed per group by aggregate()
+ */
+export type AggregateSpec<T> =
+  | 'count'
+  | { sum: keyof T }
+  | { avg: keyof T }
+  | { min: keyof T }
+  | { max: keyof T };
+
+/**
+ * Values computed by aggregate(), named like the specs passed in
+ * Null and absent values are skipped: sum is then 0, and avg, min and max are null
+ */
+export type AggregateValues<T, A extends Record<string, AggregateSpec<T>>> = {
+  [K in keyof A]: A[K] extends 'count' | { sum: keyof T }
+    ? number
+    : A[K] extends { avg: keyof T }
+      ? number | null
+      : A[K] extends { min: infer F extends keyof T } | { max: infer F extends keyof T }
+        ? NonNullable<T[F]> | null
+        : never;
+};
+
+/**
+ * Outcome of one record in a bulk write
+ */
+export interface WriteResult<T> {
+  id: string;
+  status: 'created' | 'updated' | 'deleted' | 'skipped' | 'failed';
+  /** The record as stored (or as it was, when deleted); absent when failed */
+  record?: T;
+  /** Why the record failed */
+  error?: string;
+}
+
+/**
+ * Per-record outcomes of createMany(), updateWhere() or deleteWhere(), with totals
+ */
+export interface BulkWriteResult<T> {
+  results: WriteResult<T>[];
+  created: number;
+  updated: number;
+  deleted: number;
+  skipped: number;
+  failed: number;
+}
+
+/**
+ * A declarative change to stored records, applied in version order
+ * Migrations see records as stored, so dates are ISO strings
+ */
+export type Migration = {
+  /** Schema version this migration upgrades records to; the first migration is version 2 */
+  version: number;
+  description?: string;
+} & (
+  /** Fill a missing field; without `default`, the schema's default is used */
+  | { type: 'addField'; field: string; default?: unknown }
+  | { type: 'renameField'; from: string; to: string }
+  /** Replace a field's value; returning undefined removes the field */
+  | { type: 'transformField'; field: string; transform: (value: any, record: Record<string, any>) => unknown }
+  | { type: 'dropField'; field: string }
+);
+
+/**
+ * A migration recorded as applied to every record of a table
+ */
+export interface AppliedMigration {
+  version: number;
+  description?: string;
+  /** ISO timestamp of the migrateAll() run that completed it */
+  appliedAt: string;
+}
+
+/**
+ * Schema version of a model and how far its stored records have been migrated
+ */
+export interface MigrationStatus {
+  /** Version declared by the model's migrations (1 without migrations) */
+  version: number;
+  /** Version every stored record is known to be at */
+  tableVersion: number;
+  applied: AppliedMigration[];
+  /** Versions not yet applied to the whole table */
+  pending: number[];
+}
+
+/**
+ * An index entry found to be wrong by checkIndexes()
+ */
+export interface IndexEntryIssue {
+  /** Index name: its fields joined with '+' */
+  index: string;
+  id: string;
+  /** Storage key of the entry */
+  key: string;
+}
+
+/**
+ * Result of DOModel.checkIndexes()
+ */
+export interface IndexCheckReport {
+  /** Entries whose record is gone or no longer holds the indexed values */
+  orphaned: IndexEntryIssue[];
+  /** Entries a record should have but storage lacks */
+  missing: IndexEntryIssue[];
+  /** Indexes with stored entries that the model no longer declares */
+  undeclared: { index: string; entries: number }[];
+  /** Whether the problems found were fixed */
+  repaired: boolean;
+}
+
+/**
+ * Progress of DOModel.rebuildIndexes()
+ */
+export interface IndexRebuildResult {
+  indexes: string[];
+  /** Records and index entries handled by this call */
+  processed: number;
+  /** False when stopped at `maxRecords`; call again to resume */
+  done: boolean;
+}
+
+/**
+ * Lifecycle events a model runs hooks for
+ */
+export type HookName =
+  | 'beforeValidate'
+  | 'beforeCreate'
+  | 'afterCreate'
+  | 'beforeUpdate'
+  | 'afterUpdate'
+  | 'beforeDelete'
+  | 'afterDelete';
+
+/**
+ * Passed to every hook
+ */
+export interface HookContext {
+  operation: 'create' | 'update' | 'delete';
+  /** The transaction the write runs in; bind other models to it to write atomically with the record */
+  transaction: Transaction;
+}
+
+/**
+ * What a hook returns: before hooks may return a replacement record
+ */
+export type HookResult<T> = T | void | Promise<T | void>;
+
+/**
+ * Hook signatures by lifecycle event
+ * Before hooks may change the record in place or return a replacement; throwing aborts the write
+ */
+export interface ModelHooks<T> {
+  /** Runs on the record with defaults filled (create) or updates merged (update), before validation */
+  beforeValidate: (record: T, context: HookContext) => HookResult<T>;
+  beforeCreate: (record: T, context: HookContext) => HookResult<T>;
+  afterCreate: (record: T, context: HookContext) => HookResult<void>;
+  beforeUpdate: (record: T, previous: T, context: HookContext) => HookResult<T>;
+  afterUpdate: (record: T, previous: T, context: HookContext) => HookResult<void>;
+  beforeDelete: (record: T, context: HookContext) => HookResult<void>;
+  afterDelete: (record: T, context: HookContext) => HookResult<void>;
+}
+
+/**
+ * A committed change to one record, delivered to subscribe() handlers
+ */
+export interface ChangeEvent<T> {
+  type: 'insert' | 'update' | 'delete';
+  table: string;
+  id: string;
+  /** The record before the change; null for inserts */
+  before: T | null;
+  /** The record after the change; null for deletes */
+  after: T | null;
 }
 
+/**
+ * What delete() does with records that still reference the deleted one
+ */
+export type OnDelete = 'restrict' | 'cascade' | 'setNull';
+
+/**
+ * A model class a relation points at; it is instantiated on the same storage when needed
+ */
+export type ModelClass<M extends DOModel<any> = DOModel<any>> = new (storage: DurableObjectStorage, tableName?: string) => M;
+
+/**
+ * This model's `foreignKey` holds the id of one related record
+ */
+export interface BelongsToRelation<M extends DOModel<any> = DOModel<any>> {
+  type: 'belongsTo';
+  model: () => ModelClass<M>;
+  /** Table of the related model, when not the default */
+  tableName?: string;
+  foreignKey: string;
+}
+
+/**
+ * Related records hold this record's id in their `foreignKey`
+ */
+export interface HasManyRelation<M extends DOModel<any> = DOModel<any>> {
+  type: 'hasMany';
+  model: () => ModelClass<M>;
+  tableName?: string;
+  foreignKey: string;
+  /** Defaults to 'restrict'; 'setNull' needs a nullable foreign key */
+  onDelete?: OnDelete;
+}
+
+/**
+ * Records of a join model link this record (`sourceKey`) to related records (`targetKey`)
+ */
+export interface ManyToManyRelation<M extends DOModel<any> = DOModel<any>> {
+  type: 'manyToMany';
+  model: () => ModelClass<M>;
+  tableName?: string;
+  through: () => ModelClass;
+  throughTableName?: string;
+  sourceKey: string;
+  targetKey: string;
+  /** Applies to the join records; defaults to 'cascade', which removes them */
+  onDelete?: 'restrict' | 'cascade';
+}
+
+export type RelationDefinition = BelongsToRelation | HasManyRelation | ManyToManyRelation;
+
+/**
+ * Record type of a model instance
+ */
+export type ModelRecord<M> = M extends DOModel<infer S> ? InferSchemaType<S> : never;
+
+/**
+ * What include() adds for a relation: one record or null for belongsTo, a list otherwise
+ */
+export type IncludedRecords<R> = R extends { type: 'belongsTo'; model: () => ModelClass<infer M> }
+  ? ModelRecord<M> | null
+  : R extends { model: () => ModelClass<infer M> }
+    ? ModelRecord<M>[]
+    : never;
+
+/**
+ * Built-in id generators: random UUIDs, time-sortable ULIDs and UUIDv7s, or a counter kept in storage
+ */
+export type IdGenerator = 'uuid' | 'ulid' | 'uuidv7' | 'counter';
+
+/**
+ * How create() fills in a missing id: a generator, a generator with a prefix, or a function of the record
+ */
+export type IdStrategy =
+  | IdGenerator
+  | { type: IdGenerator; prefix?: string }
+  | ((record: Record<string, any>) => string | Promise<string>);
+
 export interface ModelConfig {
   tableName?: string;
 }
 
-export type InferSchemaType<S extends SchemaDefinition> = {
-  [K in keyof S]: S[K] extends 'string' ? string
-    : S[K] extends 'number' ? number
-    : S[K] extends 'boolean' ? boolean
-    : S[K] extends 'date' ? Date
-    : S[K] extends 'object' ? Record<string, any>
-    : S[K] extends 'array' ? any[]
+interface FieldTypeMap {
+  string: string;
+  number: number;
+  boolean: boolean;
+  date: Date;
+  object: Record<string, any>;
+  array: any[];
+}
+
+/**
+ * TypeScript type of a single field definition
+ */
+export type InferFieldType<F> = F extends FieldType
+  ? FieldTypeMap[F]
+  : F extends { type: infer T extends FieldType }
+    ? DescribedFieldType<F, T> | (F extends { nullable: true } ? null : never)
     : never;
+
+type DescribedFieldType<F, T extends FieldType> = F extends { enum: readonly (infer E)[] }
+  ? E
+  : F extends { schema: infer N extends SchemaDefinition }
+    ? InferSchemaType<N>
+    : F extends { items: infer I }
+      ? InferFieldType<I>[]
+      : FieldTypeMap[T];
+
+// Declared keys only, dropping the index signature inherited from SchemaDefinition
+type SchemaKeys<S> = keyof {
+  [K in keyof S as string extends K ? never : number extends K ? never : K]: S[K];
 };
+
+type OptionalKeys<S> = {
+  [K in SchemaKeys<S>]: S[K] extends { optional: true } ? K : never;
+}[SchemaKeys<S>];
+
+type DefaultedKeys<S> = {
+  [K in SchemaKeys<S>]: S[K] extends { default: unknown } ? K : never;
+}[SchemaKeys<S>];
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+// Models typed over `any` (e.g. DOModel<any>) accept any record
+type IsAny<T> = 0 extends 1 & T ? true : false;
+
+/**
+ * Record type stored and returned by a model
+ */
+export type InferSchemaType<S extends SchemaDefinition> = IsAny<S> extends true ? any : Simplify<
+  { [K in Exclude<SchemaKeys<S>, OptionalKeys<S>>]: InferFieldType<S[K]> } &
+  { [K in OptionalKeys<S>]?: InferFieldType<S[K]> }
+>;
+
+/**
+ * Data accepted by create() - defaulted fields may be omitted
+ */
+export type InferInputType<S extends SchemaDefinition> = IsAny<S> extends true ? any : Simplify<
+  { [K in Exclude<SchemaKeys<S>, OptionalKeys<S> | DefaultedKeys<S>>]: InferFieldType<S[K]> } &
+  { [K in OptionalKeys<S> | DefaultedKeys<S>]?: InferFieldType<S[K]> }
+>;
+
+/**
+ * Data accepted by create() on a model with id strategy I - id may be omitted once a strategy is set
+ */
+export type CreateInput<S extends SchemaDefinition, I> = IsAny<S> extends true ? any : null extends I
+  ? InferInputType<S>
+  : Simplify<Omit<InferInputType<S>, 'id'> & { id?: string }>;
@@ -120,7 +120,27 @@ async function runTests() {
     assert(data.count === 2, `Should return exactly 2 events, got ${data.count}`);
   });
 
-  // Test 7: Query by userId
+  // Test 7: Page through a workspace with cursors
+  await test('Paginate with cursor', async () => {
+    const firstResponse = await fetch(`${WORKER_URL}/events?workspaceId=ws_test&limit=2`);
+    const first = await firstResponse.json() as any;
+    assert(first.success === true, 'First page should succeed');
+    assert(first.hasMore === true, 'First page should report more results');
+    assert(typeof first.nextCursor === 'string', 'First page should return a cursor');
+
+    const secondResponse = await fetch(
+      `${WORKER_URL}/events?workspaceId=ws_test&limit=2&cursor=${encodeURIComponent(first.nextCursor)}`
+    );
+    const second = await secondResponse.json() as any;
+    assert(second.success === true, 'Second page should succeed');
+    const firstIds = new Set(first.events.map((e: any) => e.id));
+    assert(
+      second.events.every((e: any) => !firstIds.has(e.id)),
+      'Second page should not repeat first page events'
+    );
+  });
+
+  // Test 8: Query by userId
   await test('Query by userId', async () => {
     const response = await fetch(`${WORKER_URL}/events?userId=user_123`);
     const data = await response.json() as any;
@@ -132,7 +152,7 @@ async function runTests() {
     );
   });
 
-  // Test 8: Update an event
+  // Test 9: Update an event
   await test('Update an event', async () => {
     const response = await fetch(`${WORKER_URL}/events/${eventId}`, {
       method: 'PUT',
@@ -147,7 +167,7 @@ async function runTests() {
     assert(data.event.data.updated === true, 'Data should be updated');
   });
 
-  // Test 9: Get statistics
+  // Test 10: Get statistics
   await test('Get statistics', async () => {
     const response = await fetch(`${WORKER_URL}/stats`);
     const data = await response.json() as any;
@@ -156,7 +176,7 @@ async function runTests() {
     assert(data.stats.uniqueWorkspaces >= 2, 'Should have at least 2 workspaces');
   });
 
-  // Test 10: Delete an event
+  // Test 11: Delete an event
   await test('Delete an event', async () => {
     const response = await fetch(`${WORKER_URL}/events/${eventId}`, {
       method: 'DELETE'
@@ -171,7 +191,7 @@ async function runTests() {
     assert(getData.success === false, 'Should not find deleted event');
   });
 
-  // Test 11: Schema validation (should fail)
+  // Test 12: Schema validation (should fail)
   await test('Schema validation - invalid type', async () => {
     const response = await fetch(`${WORKER_URL}/events`, {
       method: 'POST',
@@ -193,7 +213,7 @@ async function runTests() {
     );
   });
 
-  // Test 12: Query with date range
+  // Test 13: Query with date range
   await test('Query with date range', async () => {
     const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000).toISOString();
     const response = await fetch(`${WORKER_URL}/events?workspaceId=ws_test&after=${tenMinutesAgo}`);
@@ -3,16 +3,21 @@
  * Simulates Cloudflare Durable Objects storage for testing
  */
 
-import { DOModel, InferSchemaType, SchemaDefinition } from './src/index';
+import { DOModel, InferSchemaType, Migration, SchemaDefinition, VersionConflictError, ulid, uuidv7 } from './src/index';
+import { encodeCursor, encodeIndexValue, decodeIndexTuple } from './src/encoding';
 
 // Mock Durable Object Storage implementation for testing
 class MockDurableObjectStorage implements DurableObjectStorage {
   private data: Map<string, any> = new Map();
+  private alarm: number | null = null;
 
   async get<T = unknown>(key: string): Promise<T | undefined>;
   async get<T = unknown>(keys: string[]): Promise<Map<string, T>>;
   async get<T = unknown>(keyOrKeys: string | string[]): Promise<T | undefined | Map<string, T>> {
     if (Array.isArray(keyOrKeys)) {
+      if (keyOrKeys.length > 128) {
+        throw new Error('get() accepts at most 128 keys');
+      }
       const result = new Map<string, T>();
       for (const key of keyOrKeys) {
         const value = this.data.get(key);
@@ -31,6 +36,9 @@ class MockDurableObjectStorage implements DurableObjectStorage {
     if (typeof keyOrEntries === 'string') {
       this.data.set(keyOrEntries, value);
     } else {
+      if (Object.keys(keyOrEntries).length > 128) {
+        throw new Error('put() accepts at most 128 entries');
+      }
       for (const [key, val] of Object.entries(keyOrEntries)) {
         this.data.set(key, val);
       }
@@ -41,6 +49,9 @@ class MockDurableObjectStorage implements DurableObjectStorage {
   async delete(keys: string[]): Promise<number>;
   async delete(keyOrKeys: string | string[]): Promise<boolean | number> {
     if (Array.isArray(keyOrKeys)) {
+      if (keyOrKeys.length > 128) {
+        throw new Error('delete() accepts at most 128 keys');
+      }
       let count = 0;
       for (const key of keyOrKeys) {
         if (this.data.delete(key)) count++;
@@ -50,16 +61,23 @@ class MockDurableObjectStorage implements DurableObjectStorage {
     return this.data.delete(keyOrKeys);
   }
 
-  async list(options?: { prefix?: string; start?: string; end?: string; limit?: number }): Promise<Map<string, any>> {
+  async list(options: DurableObjectListOptions = {}): Promise<Map<string, any>> {
+    // Keys are returned in sorted order, like Durable Object storage
+    const prefix = options.prefix || '';
+    let keys = Array.from(this.data.keys())
+      .filter(key => key.startsWith(prefix))
+      .filter(key => options.start === undefined || key >= options.start)
+      .filter(key => options.startAfter === undefined || key > options.startAfter)
+      .filter(key => options.end === undefined || key < options.end)
+      .sort();
+
+    if (options.reverse) keys.reverse();
+    if (options.limit !== undefined) keys = keys.slice(0, options.limit);
+
     const result = new Map<string, any>();
-    const prefix = options?.prefix || '';
-    
-    for (const [key, value] of this.data.entries()) {
-      if (key.startsWith(prefix)) {
-        result.set(key, value);
-      }
+    for (const key of keys) {
+      result.set(key, this.data.get(key));
     }
-    
     return result;
   }
 
@@ -67,20 +85,59 @@ class MockDurableObjectStorage implements DurableObjectStorage {
     this.data.clear();
   }
 
-  transaction<T>(closure: (txn: DurableObjectTransaction) => Promise<T>): Promise<T> {
-    throw new Error('Transactions not implemented in mock');
+  async transaction<T>(closure: (txn: DurableObjectTransaction) => Promise<T>): Promise<T> {
+    // Journal the previous value of every key written so it can be restored
+    const journal = new Map<string, any>();
+    let rolledBack = false;
+    const remember = (keys: string[]) => {
+      for (const key of keys) {
+        if (!journal.has(key)) journal.set(key, this.data.get(key));
+      }
+    };
+    const restore = () => {
+      for (const [key, value] of journal) {
+        if (value === undefined) this.data.delete(key);
+        else this.data.set(key, value);
+      }
+    };
+
+    const txn = {
+      get: (keyOrKeys: any) => this.get(keyOrKeys),
+      list: (options?: any) => this.list(options),
+      put: (keyOrEntries: any, value?: any) => {
+        remember(typeof keyOrEntries === 'string' ? [keyOrEntries] : Object.keys(keyOrEntries));
+        return this.put(keyOrEntries, value);
+      },
+      delete: (keyOrKeys: any) => {
+        remember(Array.isArray(keyOrKeys) ? keyOrKeys : [keyOrKeys]);
+        return this.delete(keyOrKeys);
+      },
+      rollback: () => { rolledBack = true; },
+      getAlarm: () => this.getAlarm(),
+      setAlarm: (time: number | Date) => this.setAlarm(time),
+      deleteAlarm: () => this.deleteAlarm(),
+    } as unknown as DurableObjectTransaction;
+
+    try {
+      const result = await closure(txn);
+      if (rolledBack) restore();
+      return result;
+    } catch (error) {
+      restore();
+      throw error;
+    }
   }
 
-  getAlarm(): Promise<number | null> {
-    throw new Error('Alarms not implemented in mock');
+  async getAlarm(): Promise<number | null> {
+    return this.alarm;
   }
 
-  setAlarm(scheduledTime: number | Date): Promise<void> {
-    throw new Error('Alarms not implemented in mock');
+  async setAlarm(scheduledTime: number | Date): Promise<void> {
+    this.alarm = typeof scheduledTime === 'number' ? scheduledTime : scheduledTime.getTime();
   }
 
-  deleteAlarm(): Promise<void> {
-    throw new Error('Alarms not implemented in mock');
+  async deleteAlarm(): Promise<void> {
+    this.alarm = null;
   }
 
   sync(): Promise<void> {
@@ -88,6 +145,58 @@ class MockDurableObjectStorage implements DurableObjectStorage {
   }
 }
 
+// Storage that fails on writes to keys matching a pattern, to simulate a crash mid-write
+class FailingStorage extends MockDurableObjectStorage {
+  constructor(private failOn: RegExp) {
+    super();
+  }
+
+  async put<T>(keyOrEntries: string | Record<string, T>, value?: T): Promise<void> {
+    const keys = typeof keyOrEntries === 'string' ? [keyOrEntries] : Object.keys(keyOrEntries);
+    if (keys.some(key => this.failOn.test(key))) {
+      throw new Error('Simulated storage failure');
+    }
+    return super.put(keyOrEntries as any, value);
+  }
+}
+
+// Storage that counts read calls, to check how much a query touches
+class CountingStorage extends MockDurableObjectStorage {
+  // `loaded` counts keys requested through get(), `keys` every key read
+  reads = { get: 0, list: 0, keys: 0, loaded: 0 };
+  writes = { put: 0, delete: 0 };
+
+  resetCounts() {
+    this.reads = { get: 0, list: 0, keys: 0, loaded: 0 };
+    this.writes = { put: 0, delete: 0 };
+  }
+
+  async put(keyOrEntries: any, value?: any): Promise<void> {
+    this.writes.put++;
+    return super.put(keyOrEntries, value);
+  }
+
+  async delete(keyOrKeys: any): Promise<any> {
+    this.writes.delete++;
+    return super.delete(keyOrKeys);
+  }
+
+  async get(keyOrKeys: any): Promise<any> {
+    const count = Array.isArray(keyOrKeys) ? keyOrKeys.length : 1;
+    this.reads.get++;
+    this.reads.keys += count;
+    this.reads.loaded += count;
+    return super.get(keyOrKeys);
+  }
+
+  async list(options?: DurableObjectListOptions): Promise<Map<string, any>> {
+    this.reads.list++;
+    const result = await super.list(options);
+    this.reads.keys += result.size;
+    return result;
+  }
+}
+
 // Define test Event model
 interface EventSchema extends SchemaDefinition {
   id: 'string';
@@ -109,6 +218,459 @@ class Event extends DOModel<EventSchema> {
   protected indexes = ['workspaceId', 'timestamp'] as const;
 }
 
+// Event model with a compound index for per-workspace, per-type timelines
+class WorkspaceEvent extends DOModel<EventSchema> {
+  protected schema: EventSchema = {
+    id: 'string',
+    workspaceId: 'string',
+    timestamp: 'date',
+    type: 'string',
+    data: 'object',
+  };
+
+  protected indexes = ['workspaceId', ['workspaceId', 'type', 'timestamp']] as const;
+}
+
+// Event model with a compound index for per-workspace feeds
+class FeedEvent extends DOModel<EventSchema> {
+  protected schema: EventSchema = {
+    id: 'string',
+    workspaceId: 'string',
+    timestamp: 'date',
+    type: 'string',
+    data: 'object',
+  };
+
+  protected indexes = [['workspaceId', 'timestamp']] as const;
+}
+
+// Event model that adds an index on type
+class TypedEvent extends DOModel<EventSchema> {
+  protected schema: EventSchema = {
+    id: 'string',
+    workspaceId: 'string',
+    timestamp: 'date',
+    type: 'string',
+    data: 'object',
+  };
+
+  protected indexes = ['workspaceId', 'timestamp', 'type'] as const;
+}
+
+// Event model that keeps its data blobs under their own keys
+class LeanEvent extends DOModel<EventSchema> {
+  protected schema: EventSchema = {
+    id: 'string',
+    workspaceId: 'string',
+    timestamp: 'date',
+    type: 'string',
+    data: 'object',
+  };
+
+  protected indexes = ['workspaceId', 'timestamp'] as const;
+  protected largeFields = ['data'] as const;
+}
+
+// Models joined by relations: teams have projects, projects have an owner and labels
+interface TeamSchema extends SchemaDefinition {
+  id: 'string';
+  name: 'string';
+}
+
+class Team extends DOModel<TeamSchema> {
+  protected schema: TeamSchema = { id: 'string', name: 'string' };
+  protected indexes = [] as const;
+
+  readonly relations = {
+    projects: { type: 'hasMany', model: () => Project, foreignKey: 'teamId', onDelete: 'cascade' },
+  } as const;
+}
+
+interface PersonSchema extends SchemaDefinition {
+  id: 'string';
+  name: 'string';
+}
+
+class Person extends DOModel<PersonSchema> {
+  protected schema: PersonSchema = { id: 'string', name: 'string' };
+  protected indexes = [] as const;
+
+  readonly relations = {
+    projects: { type: 'hasMany', model: () => Project, foreignKey: 'ownerId', onDelete: 'setNull' },
+  } as const;
+}
+
+interface ProjectSchema extends SchemaDefinition {
+  id: 'string';
+  teamId: 'string';
+  ownerId: { type: 'string'; nullable: true };
+  name: 'string';
+}
+
+class Project extends DOModel<ProjectSchema> {
+  protected schema: ProjectSchema = {
+    id: 'string',
+    teamId: 'string',
+    ownerId: { type: 'string', nullable: true },
+    name: 'string',
+  };
+  protected indexes = ['teamId', 'ownerId'] as const;
+
+  readonly relations = {
+    team: { type: 'belongsTo', model: () => Team, foreignKey: 'teamId' },
+    owner: { type: 'belongsTo', model: () => Person, foreignKey: 'ownerId' },
+    labels: { type: 'manyToMany', model: () => Label, through: () => ProjectLabel, sourceKey: 'projectId', targetKey: 'labelId' },
+  } as const;
+}
+
+interface LabelSchema extends SchemaDefinition {
+  id: 'string';
+  name: 'string';
+}
+
+class Label extends DOModel<LabelSchema> {
+  protected schema: LabelSchema = { id: 'string', name: 'string' };
+  protected indexes = [] as const;
+
+  readonly relations = {
+    projects: {
+      type: 'manyToMany',
+      model: () => Project,
+      through: () => ProjectLabel,
+      sourceKey: 'labelId',
+      targetKey: 'projectId',
+      onDelete: 'restrict',
+    },
+  } as const;
+}
+
+interface ProjectLabelSchema extends SchemaDefinition {
+  id: 'string';
+  projectId: 'string';
+  labelId: 'string';
+}
+
+class ProjectLabel extends DOModel<ProjectLabelSchema> {
+  protected schema: ProjectLabelSchema = { id: 'string', projectId: 'string', labelId: 'string' };
+  protected indexes = ['projectId', 'labelId'] as const;
+}
+
+// Folders nested through a self-referential relation
+interface FolderSchema extends SchemaDefinition {
+  id: 'string';
+  parentId: { type: 'string'; nullable: true };
+  name: 'string';
+}
+
+class Folder extends DOModel<FolderSchema> {
+  protected schema: FolderSchema = {
+    id: 'string',
+    parentId: { type: 'string', nullable: true },
+    name: 'string',
+  };
+  protected indexes = ['parentId'] as const;
+
+  readonly relations = {
+    children: { type: 'hasMany', model: () => Folder, foreignKey: 'parentId', onDelete: 'cascade' },
+  } as const;
+}
+
+// Event models that generate their ids
+class UlidEvent extends DOModel<EventSchema> {
+  protected schema: EventSchema = {
+    id: 'string',
+    workspaceId: 'string',
+    timestamp: 'date',
+    type: 'string',
+    data: 'object',
+  };
+
+  protected indexes = ['workspaceId'] as const;
+  readonly idStrategy = { type: 'ulid', prefix: 'evt_' } as const;
+}
+
+class CountedEvent extends DOModel<EventSchema> {
+  protected schema: EventSchema = {
+    id: 'string',
+    workspaceId: 'string',
+    timestamp: 'date',
+    type: 'string',
+    data: 'object',
+  };
+
+  protected indexes = [] as const;
+  readonly idStrategy = 'counter';
+}
+
+// Article model with full-text search over its title and body
+interface ArticleSchema extends SchemaDefinition {
+  id: 'string';
+  authorId: 'string';
+  title: { type: 'string'; searchable: true };
+  body: { type: 'string'; searchable: true };
+}
+
+class Article extends DOModel<ArticleSchema> {
+  protected schema: ArticleSchema = {
+    id: 'string',
+    authorId: 'string',
+    title: { type: 'string', searchable: true },
+    body: { type: 'string', searchable: true },
+  };
+
+  protected indexes = ['authorId'] as const;
+}
+
+// Define test Task model with optional, nullable and defaulted fields
+interface TaskSchema extends SchemaDefinition {
+  id: 'string';
+  title: 'string';
+  assignee: { type: 'string'; optional: true };
+  completedAt: { type: 'date'; nullable: true };
+  status: { type: 'string'; default: string };
+  createdAt: { type: 'date'; default: () => Date };
+}
+
+class Task extends DOModel<TaskSchema> {
+  protected schema: TaskSchema = {
+    id: 'string',
+    title: 'string',
+    assignee: { type: 'string', optional: true },
+    completedAt: { type: 'date', nullable: true },
+    status: { type: 'string', default: 'pending' },
+    createdAt: { type: 'date', default: () => new Date() },
+  };
+
+  protected indexes = ['assignee', 'status'] as const;
+}
+
+// Define test Job model with field constraints
+interface JobSchema extends SchemaDefinition {
+  id: 'string';
+  status: { type: 'string'; enum: readonly ['pending', 'running', 'done'] };
+  priority: { type: 'number'; min: 1; max: 5; integer: true };
+  owner: { type: 'string'; minLength: 2; maxLength: 20; pattern: RegExp };
+  tags: { type: 'array'; maxItems: 3 };
+  slug: { type: 'string'; validate: (value: string) => boolean | string };
+}
+
+class Job extends DOModel<JobSchema> {
+  protected schema: JobSchema = {
+    id: 'string',
+    status: { type: 'string', enum: ['pending', 'running', 'done'] },
+    priority: { type: 'number', min: 1, max: 5, integer: true },
+    owner: { type: 'string', minLength: 2, maxLength: 20, pattern: /^[^@\s]+@[^@\s]+$/ },
+    tags: { type: 'array', maxItems: 3 },
+    slug: {
+      type: 'string',
+      validate: (value: string) => value === value.toLowerCase() || 'must be lowercase',
+    },
+  };
+
+  protected indexes = ['status', 'priority'] as const;
+}
+
+// Define test Order model with nested object and array schemas
+interface OrderSchema extends SchemaDefinition {
+  id: 'string';
+  data: {
+    type: 'object';
+    schema: {
+      customer: { type: 'object'; schema: { name: 'string'; since: 'date' } };
+      items: {
+        type: 'array';
+        minItems: 1;
+        items: { type: 'object'; schema: { sku: 'string'; qty: { type: 'number'; min: 1 } } };
+      };
+      notes: { type: 'array'; items: 'string'; optional: true };
+    };
+  };
+}
+
+class Order extends DOModel<OrderSchema> {
+  protected schema: OrderSchema = {
+    id: 'string',
+    data: {
+      type: 'object',
+      schema: {
+        customer: { type: 'object', schema: { name: 'string', since: 'date' } },
+        items: {
+          type: 'array',
+          minItems: 1,
+          items: { type: 'object', schema: { sku: 'string', qty: { type: 'number', min: 1 } } },
+        },
+        notes: { type: 'array', items: 'string', optional: true },
+      },
+    },
+  };
+
+  protected indexes = [] as const;
+}
+
+// Define test User model with unique constraints
+interface UserSchema extends SchemaDefinition {
+  id: 'string';
+  workspaceId: 'string';
+  email: 'string';
+  handle: 'string';
+  nickname: { type: 'string'; optional: true };
+}
+
+class User extends DOModel<UserSchema> {
+  protected schema: UserSchema = {
+    id: 'string',
+    workspaceId: 'string',
+    email: 'string',
+    handle: 'string',
+    nickname: { type: 'string', optional: true },
+  };
+
+  protected indexes = ['workspaceId'] as const;
+  protected unique = ['email', ['workspaceId', 'handle'], 'nickname'] as const;
+}
+
+// Member model that normalises emails and protects admins through hooks
+interface MemberSchema extends SchemaDefinition {
+  id: 'string';
+  email: 'string';
+  name: 'string';
+  role: { type: 'string'; enum: readonly ['admin', 'member'] };
+}
+
+class Member extends DOModel<MemberSchema> {
+  protected schema: MemberSchema = {
+    id: 'string',
+    email: 'string',
+    name: 'string',
+    role: { type: 'string', enum: ['admin', 'member'] as const },
+  };
+
+  protected indexes = ['role'] as const;
+  protected unique = ['email'] as const;
+
+  protected beforeValidate(record: InferSchemaType<MemberSchema>) {
+    if (typeof record.email === 'string') {
+      record.email = record.email.trim().toLowerCase();
+    }
+  }
+
+  protected beforeDelete(record: InferSchemaType<MemberSchema>) {
+    if (record.role === 'admin') {
+      throw new Error(`Cannot delete admin '${record.id}'`);
+    }
+  }
+}
+
+// Document model with soft delete
+interface DocumentSchema extends SchemaDefinition {
+  id: 'string';
+  ownerId: 'string';
+  title: 'string';
+  deletedAt: { type: 'date'; nullable: true; optional: true };
+}
+
+class Document extends DOModel<DocumentSchema> {
+  protected schema: DocumentSchema = {
+    id: 'string',
+    ownerId: 'string',
+    title: 'string',
+    deletedAt: { type: 'date', nullable: true, optional: true },
+  };
+
+  protected indexes = ['ownerId'] as const;
+  protected unique = ['title'] as const;
+  protected softDelete = true;
+}
+
+// Note model with managed timestamps and versions
+interface NoteSchema extends SchemaDefinition {
+  id: 'string';
+  body: 'string';
+  createdAt: { type: 'date'; default: () => Date };
+  updatedAt: { type: 'date'; default: () => Date };
+  version: { type: 'number'; default: number };
+}
+
+class Note extends DOModel<NoteSchema> {
+  protected schema: NoteSchema = {
+    id: 'string',
+    body: 'string',
+    createdAt: { type: 'date', default: () => new Date() },
+    updatedAt: { type: 'date', default: () => new Date() },
+    version: { type: 'number', default: 1 },
+  };
+
+  protected indexes = [] as const;
+  protected timestamps = true;
+  protected versioned = true;
+}
+
+// Session model whose records expire
+interface SessionSchema extends SchemaDefinition {
+  id: 'string';
+  userId: 'string';
+  token: 'string';
+  expiresAt: { type: 'date'; optional: true };
+}
+
+class Session extends DOModel<SessionSchema> {
+  protected schema: SessionSchema = {
+    id: 'string',
+    userId: 'string',
+    token: 'string',
+    expiresAt: { type: 'date', optional: true },
+  };
+
+  protected indexes = ['userId'] as const;
+  protected unique = ['token'] as const;
+  protected expires = true;
+  protected ttl = 60_000;
+}
+
+// Profile model before and after a series of schema migrations
+interface ProfileV1Schema extends SchemaDefinition {
+  id: 'string';
+  name: 'string';
+  email: 'string';
+  legacyScore: 'number';
+}
+
+class ProfileV1 extends DOModel<ProfileV1Schema> {
+  protected schema: ProfileV1Schema = {
+    id: 'string',
+    name: 'string',
+    email: 'string',
+    legacyScore: 'number',
+  };
+
+  protected indexes = [] as const;
+}
+
+interface ProfileSchema extends SchemaDefinition {
+  id: 'string';
+  displayName: 'string';
+  email: 'string';
+  plan: { type: 'string'; default: 'free' };
+}
+
+class Profile extends DOModel<ProfileSchema> {
+  protected schema: ProfileSchema = {
+    id: 'string',
+    displayName: 'string',
+    email: 'string',
+    plan: { type: 'string', default: 'free' },
+  };
+
+  protected indexes = ['plan'] as const;
+  protected unique = ['email'] as const;
+  protected migrations: Migration[] = [
+    { version: 2, type: 'addField', field: 'plan', description: 'Add plan' },
+    { version: 3, type: 'renameField', from: 'name', to: 'displayName' },
+    { version: 4, type: 'transformField', field: 'email', transform: (email: string) => email.toLowerCase() },
+    { version: 5, type: 'dropField', field: 'legacyScore' },
+  ];
+}
+
 // Test runner
 class TestRunner {
   private passed = 0;
@@ -499,6 +1061,1746 @@ async function runTests() {
     }
   });
 
+  // Test 14: Failed index write rolls back the record
+  await runner.test('Create is atomic across record and indexes', async () => {
+    const storage = new FailingStorage(/^index:event:timestamp:/);
+    const eventModel = new Event(storage);
+
+    try {
+      await eventModel.create({
+        id: 'evt_atomic',
+        workspaceId: 'ws_atomic',
+        timestamp: new Date('2024-01-01T10:00:00Z'),
+        type: 'click',
+        data: {},
+      });
+      throw new Error('Should have thrown storage failure');
+    } catch (error) {
+      runner.assert(
+        error instanceof Error && error.message.includes('Simulated storage failure'),
+        'Should surface the storage failure'
+      );
+    }
+
+    runner.assert(await eventModel.find('evt_atomic') === null, 'Record should be rolled back');
+    const workspaceIndex = await storage.list({ prefix: 'index:event:workspaceId:' });
+    runner.assert(workspaceIndex.size === 0, 'Index entry should be rolled back');
+  });
+
+  // Test 15: Transactions spanning several models
+  await runner.test('Transaction groups writes across models', async () => {
+    const storage = new MockDurableObjectStorage();
+    const eventModel = new Event(storage);
+    const archiveModel = new Event(storage, 'archive');
+
+    await eventModel.create({
+      id: 'evt_move',
+      workspaceId: 'ws_tx',
+      timestamp: new Date('2024-01-01T10:00:00Z'),
+      type: 'click',
+      data: {},
+    });
+
+    // Move the record to the archive table atomically
+    await eventModel.transaction(async tx => {
+      const events = tx.bind(eventModel);
+      const archive = tx.bind(archiveModel);
+      const event = await events.find('evt_move');
+      await archive.create(event!);
+      await events.delete('evt_move');
+    });
+
+    runner.assert(await eventModel.find('evt_move') === null, 'Record should leave events');
+    runner.assert(await archiveModel.find('evt_move') !== null, 'Record should reach archive');
+
+    // A failing closure commits nothing
+    try {
+      await eventModel.transaction(async tx => {
+        await tx.bind(eventModel).create({
+          id: 'evt_lost',
+          workspaceId: 'ws_tx',
+          timestamp: new Date('2024-01-02T10:00:00Z'),
+          type: 'click',
+          data: {},
+        });
+        await tx.bind(archiveModel).create({ id: 'evt_move' } as any);
+      });
+      throw new Error('Should have thrown');
+    } catch (error) {
+      runner.assert(
+        error instanceof Error && error.message.includes('Missing required field'),
+        'Should surface the failing write'
+      );
+    }
+
+    runner.assert(await eventModel.find('evt_lost') === null, 'Earlier write should be rolled back');
+    const wsIndex = await storage.list({ prefix: 'index:event:workspaceId:' });
+    runner.assert(wsIndex.size === 0, 'Index entries should be rolled back');
+  });
+
+  // Test 16: Optional, nullable and defaulted fields
+  await runner.test('Optional, nullable and defaulted fields', async () => {
+    const storage = new MockDurableObjectStorage();
+    const taskModel = new Task(storage);
+
+    const task = await taskModel.create({
+      id: 'task_1',
+      title: 'Write docs',
+      completedAt: null,
+    });
+
+    runner.assertEquals(task.assignee, undefined, 'Optional field may be absent');
+    runner.assertEquals(task.completedAt, null, 'Nullable field may be null');
+    runner.assertEquals(task.status, 'pending', 'Static default should be filled');
+    runner.assert(task.createdAt instanceof Date, 'Factory default should be filled');
+
+    const found = await taskModel.find('task_1');
+    runner.assert(found!.createdAt instanceof Date, 'Defaulted date should round-trip');
+    runner.assert(!('assignee' in found!), 'Absent optional field should not be stored');
+
+    const done = await taskModel.update('task_1', { assignee: 'ana', completedAt: new Date() });
+    runner.assertEquals(done.assignee, 'ana');
+    const assigned = await taskModel.where({ assignee: 'ana' }).execute();
+    runner.assertEquals(assigned.length, 1, 'Optional field should be indexed once set');
+  });
+
+  // Test 17: Null and missing values are rejected unless declared
+  await runner.test('Schema validation - null and missing values', async () => {
+    const storage = new MockDurableObjectStorage();
+    const taskModel = new Task(storage);
+
+    try {
+      await taskModel.create({ id: 'task_2', title: null, completedAt: null } as any);
+      throw new Error('Should have thrown validation error');
+    } catch (error) {
+      runner.assert(
+        error instanceof Error && error.message.includes("Field 'title' must be a string, got null"),
+        'Should reject null in a non-nullable field'
+      );
+    }
+
+    try {
+      await taskModel.create({ id: 'task_3', title: 'No completedAt' } as any);
+      throw new Error('Should have thrown validation error');
+    } catch (error) {
+      runner.assert(
+        error instanceof Error && error.message.includes('Missing required field: completedAt'),
+        'Nullable fields are still required'
+      );
+    }
+  });
+
+  // Test 18: Field constraints
+  await runner.test('Schema validation - field constraints', async () => {
+    const storage = new MockDurableObjectStorage();
+    const jobModel = new Job(storage);
+    const valid = {
+      id: 'job_1',
+      status: 'pending' as const,
+      priority: 3,
+      owner: 'ops@example.com',
+      tags: ['nightly'],
+      slug: 'reindex',
+    };
+
+    const job = await jobModel.create(valid);
+    runner.assertEquals(job.status, 'pending');
+
+    const cases: [Record<string, unknown>, string][] = [
+      [{ status: 'failed' }, "Field 'status' must be one of pending, running, done"],
+      [{ priority: 0 }, "Field 'priority' must be at least 1"],
+      [{ priority: 6 }, "Field 'priority' must be at most 5"],
+      [{ priority: 2.5 }, "Field 'priority' must be an integer"],
+      [{ owner: 'a' }, "Field 'owner' must be at least 2 characters"],
+      [{ owner: 'not-an-email' }, "Field 'owner' must match"],
+      [{ tags: ['a', 'b', 'c', 'd'] }, "Field 'tags' must have at most 3 items"],
+      [{ slug: 'ReIndex' }, "Field 'slug' must be lowercase"],
+    ];
+
+    for (const [overrides, message] of cases) {
+      try {
+        await jobModel.create({ ...valid, id: `job_${message}`, ...overrides } as any);
+        throw new Error(`Should have rejected ${JSON.stringify(overrides)}`);
+      } catch (error) {
+        runner.assert(
+          error instanceof Error && error.message.includes(message),
+          `Expected "${message}", got "${error instanceof Error ? error.message : error}"`
+        );
+      }
+    }
+
+    // Constraints are enforced on update too
+    try {
+      await jobModel.update('job_1', { priority: 9 });
+      throw new Error('Should have thrown validation error');
+    } catch (error) {
+      runner.assert(
+        error instanceof Error && error.message.includes('must be at most 5'),
+        'Update should enforce constraints'
+      );
+    }
+  });
+
+  // Test 19: Nested object and array schemas
+  await runner.test('Nested object and array schemas', async () => {
+    const storage = new MockDurableObjectStorage();
+    const orderModel = new Order(storage);
+
+    await orderModel.create({
+      id: 'order_1',
+      data: {
+        customer: { name: 'Ana', since: new Date('2023-05-01T00:00:00Z') },
+        items: [{ sku: 'A-1', qty: 2 }, { sku: 'B-7', qty: 1 }],
+      },
+    });
+
+    const found = await orderModel.find('order_1');
+    runner.assertEquals(found!.data.items[1].sku, 'B-7');
+    runner.assert(found!.data.customer.since instanceof Date, 'Nested dates should round-trip');
+    runner.assertEquals(found!.data.customer.since.getUTCFullYear(), 2023);
+
+    const cases: [any, string][] = [
+      [
+        { customer: { name: 'Ana', since: new Date() }, items: [{ sku: 'A', qty: 1 }, { sku: 'B', qty: 1 }, { sku: 3, qty: 1 }] },
+        "Field 'data.items[2].sku' must be a string, got number",
+      ],
+      [
+        { customer: { name: 'Ana' }, items: [{ sku: 'A', qty: 1 }] },
+        'Missing required field: data.customer.since',
+      ],
+      [
+        { customer: { name: 'Ana', since: new Date() }, items: [{ sku: 'A', qty: 0 }] },
+        "Field 'data.items[0].qty' must be at least 1",
+      ],
+      [
+        { customer: { name: 'Ana', since: new Date() }, items: [{ sku: 'A', qty: 1 }], notes: ['ok', false] },
+        "Field 'data.notes[1]' must be a string, got boolean",
+      ],
+    ];
+
+    for (const [data, message] of cases) {
+      try {
+        await orderModel.create({ id: 'order_bad', data });
+        throw new Error(`Should have rejected ${JSON.stringify(data)}`);
+      } catch (error) {
+        runner.assert(
+          error instanceof Error && error.message.includes(message),
+          `Expected "${message}", got "${error instanceof Error ? error.message : error}"`
+        );
+      }
+    }
+  });
+
+  // Test 20: Comparison and set operators in where clauses
+  await runner.test('Query with where operators', async () => {
+    const storage = new MockDurableObjectStorage();
+    const jobModel = new Job(storage);
+    const jobs = [
+      { id: 'job_a', status: 'pending', priority: 1, owner: 'ana@example.com', tags: ['nightly'], slug: 'a' },
+      { id: 'job_b', status: 'running', priority: 3, owner: 'bob@example.com', tags: ['adhoc'], slug: 'b' },
+      { id: 'job_c', status: 'done', priority: 5, owner: 'ann@example.com', tags: ['nightly', 'adhoc'], slug: 'c' },
+      { id: 'job_d', status: 'pending', priority: 4, owner: 'cy@example.com', tags: [], slug: 'd' },
+    ] as const;
+    for (const job of jobs) {
+      await jobModel.create({ ...job, tags: [...job.tags] });
+    }
+
+    const ids = (records: { id: string }[]) => records.map(r => r.id).sort().join(',');
+
+    runner.assertEquals(ids(await jobModel.where({ priority: { gt: 3 } }).execute()), 'job_c,job_d');
+    runner.assertEquals(ids(await jobModel.where({ priority: { gte: 3, lt: 5 } }).execute()), 'job_b,job_d');
+    runner.assertEquals(ids(await jobModel.where({ status: { ne: 'pending' } }).execute()), 'job_b,job_c');
+    runner.assertEquals(ids(await jobModel.where({ status: { in: ['running', 'done'] } }).execute()), 'job_b,job_c');
+    runner.assertEquals(ids(await jobModel.where({ status: { notIn: ['pending'] } }).execute()), 'job_b,job_c');
+    runner.assertEquals(ids(await jobModel.where({ tags: { contains: 'nightly' } }).execute()), 'job_a,job_c');
+    runner.assertEquals(ids(await jobModel.where({ owner: { startsWith: 'an' } }).execute()), 'job_a,job_c');
+
+    // Indexed `in` combined with a filtered operator on the builder
+    const combined = await jobModel
+      .where({ status: { in: ['pending', 'done'] } })
+      .where({ priority: { lte: 4 } })
+      .execute();
+    runner.assertEquals(ids(combined), 'job_a,job_d');
+
+    // Operators are type-checked per field type
+    // @ts-expect-error startsWith is only available on string fields
+    jobModel.where({ priority: { startsWith: '1' } });
+  });
+
+  // Test 21: Where on a non-indexed field falls back to a scan
+  await runner.test('Query on non-indexed field scans', async () => {
+    const storage = new MockDurableObjectStorage();
+    const eventModel = new Event(storage);
+
+    await eventModel.create({
+      id: 'evt_scan_1',
+      workspaceId: 'ws_scan',
+      timestamp: new Date('2024-01-01T10:00:00Z'),
+      type: 'signup',
+      data: {},
+    });
+    await eventModel.create({
+      id: 'evt_scan_2',
+      workspaceId: 'ws_scan',
+      timestamp: new Date('2024-01-02T10:00:00Z'),
+      type: 'click',
+      data: {},
+    });
+
+    const results = await eventModel.where({ type: 'signup' }).execute();
+    runner.assertEquals(results.length, 1, 'Should find the signup event');
+    runner.assertEquals(results[0].id, 'evt_scan_1');
+
+    const byDate = await eventModel.where({ timestamp: new Date('2024-01-02T10:00:00Z') }).execute();
+    runner.assertEquals(byDate.length, 1, 'Date equality should match by value');
+  });
+
+  // Test 22: Index encoding preserves value order
+  await runner.test('Index keys sort in value order', async () => {
+    const numbers = [-1e300, -42.5, -1, -0.001, 0, 0.001, 1, 2, 10, 42.5, 1e300];
+    const shuffledNumbers = [...numbers].reverse();
+    const sortedNumbers = shuffledNumbers
+      .map(n => encodeIndexValue(n))
+      .sort()
+      .map(encoded => decodeIndexTuple(encoded)[0]);
+    runner.assertEquals(JSON.stringify(sortedNumbers), JSON.stringify(numbers), 'Numbers should sort numerically');
+
+    const strings = ['', 'a', 'a\x00', 'a\x01b', 'ab', 'b'];
+    const sortedStrings = [...strings]
+      .reverse()
+      .map(value => encodeIndexValue(value))
+      .sort()
+      .map(encoded => decodeIndexTuple(encoded)[0]);
+    runner.assertEquals(JSON.stringify(sortedStrings), JSON.stringify(strings), 'Strings should sort and round-trip');
+
+    const early = encodeIndexValue(new Date('2023-12-31T23:59:59Z'));
+    const late = encodeIndexValue(new Date('2024-01-01T00:00:00Z'));
+    runner.assert(early < late, 'Dates should sort chronologically');
+  });
+
+  // Test 23: Range predicates and ordering served by index scans
+  await runner.test('Range queries use bounded index scans', async () => {
+    const storage = new CountingStorage();
+    const jobModel = new Job(storage);
+    const eventModel = new Event(storage);
+
+    for (let i = 0; i < 300; i++) {
+      await eventModel.create({
+        id: `evt_range_${String(i).padStart(3, '0')}`,
+        workspaceId: 'ws_range',
+        timestamp: new Date(Date.UTC(2024, 0, 1, 0, i)),
+        type: 'click',
+        data: {},
+      });
+    }
+
+    // Last 50 events: one index page and 50 record reads, not 300
+    storage.resetCounts();
+    const latest = await eventModel.where({}).orderBy('timestamp', 'desc').limit(50).execute();
+    runner.assertEquals(latest.length, 50);
+    runner.assertEquals(latest[0].id, 'evt_range_299', 'Newest event should come first');
+    runner.assertEquals(latest[49].id, 'evt_range_250');
+    runner.assertEquals(storage.reads.list, 1, 'Should read a single index page');
+    runner.assertEquals(storage.reads.get, 1, 'Should load the records in one batch');
+    runner.assertEquals(storage.reads.loaded, 50, 'Should only load the returned records');
+
+    // after()/before() bound the timestamp index
+    storage.resetCounts();
+    const window = await eventModel
+      .where({})
+      .orderBy('timestamp', 'asc')
+      .after(new Date(Date.UTC(2024, 0, 1, 0, 99)))
+      .before(new Date(Date.UTC(2024, 0, 1, 0, 110)))
+      .execute();
+    runner.assertEquals(window.length, 10, 'Should find minutes 100-109');
+    runner.assertEquals(window[0].id, 'evt_range_100');
+    runner.assertEquals(storage.reads.loaded, 10, 'Should only load records inside the range');
+
+    // Numeric operators on an indexed field
+    for (let priority = 1; priority <= 5; priority++) {
+      await jobModel.create({
+        id: `job_${priority}`,
+        status: 'pending',
+        priority,
+        owner: 'ops@example.com',
+        tags: [],
+        slug: `job-${priority}`,
+      });
+    }
+    const between = await jobModel.where({ priority: { gt: 2, lte: 4 } }).orderBy('priority', 'desc').execute();
+    runner.assertEquals(between.map(j => j.priority).join(','), '4,3');
+  });
+
+  // Test 24: Compound indexes
+  await runner.test('Compound index serves equality prefix with ordered range', async () => {
+    const storage = new CountingStorage();
+    const eventModel = new WorkspaceEvent(storage);
+    const types = ['click', 'pageview', 'signup'];
+
+    for (let i = 0; i < 120; i++) {
+      await eventModel.create({
+        id: `evt_cmp_${String(i).padStart(3, '0')}`,
+        workspaceId: i % 2 === 0 ? 'ws_even' : 'ws_odd',
+        timestamp: new Date(Date.UTC(2024, 0, 1, 0, i)),
+        type: types[i % 3],
+        data: {},
+      });
+    }
+
+    // workspaceId = X AND type = Y ORDER BY timestamp DESC LIMIT 5
+    storage.resetCounts();
+    const latest = await eventModel
+      .where({ workspaceId: 'ws_even', type: 'click' })
+      .orderBy('timestamp', 'desc')
+      .limit(5)
+      .execute();
+    runner.assertEquals(latest.map(e => e.id).join(','),
+      'evt_cmp_114,evt_cmp_108,evt_cmp_102,evt_cmp_096,evt_cmp_090');
+    runner.assertEquals(storage.reads.list, 1, 'Should read one page of the compound index');
+    runner.assertEquals(storage.reads.loaded, 5, 'Should only load the returned records');
+
+    // Equality prefix plus a range on the trailing field
+    const ranged = await eventModel
+      .where({ workspaceId: 'ws_odd', type: 'signup', timestamp: { gte: new Date(Date.UTC(2024, 0, 1, 1, 0)) } })
+      .orderBy('timestamp', 'asc')
+      .execute();
+    runner.assertEquals(ranged.map(e => e.id).join(','),
+      'evt_cmp_065,evt_cmp_071,evt_cmp_077,evt_cmp_083,evt_cmp_089,evt_cmp_095,evt_cmp_101,evt_cmp_107,evt_cmp_113,evt_cmp_119');
+
+    // `in` on a prefix field fans out into one scan per value
+    const mixed = await eventModel
+      .where({ workspaceId: 'ws_even', type: { in: ['click', 'signup'] } })
+      .orderBy('timestamp', 'desc')
+      .limit(3)
+      .execute();
+    runner.assertEquals(mixed.map(e => e.id).join(','), 'evt_cmp_116,evt_cmp_114,evt_cmp_110');
+
+    // Updates and deletes keep the compound index in sync
+    await eventModel.update('evt_cmp_114', { type: 'pageview' });
+    await eventModel.delete('evt_cmp_108');
+    const afterChanges = await eventModel
+      .where({ workspaceId: 'ws_even', type: 'click' })
+      .orderBy('timestamp', 'desc')
+      .limit(2)
+      .execute();
+    runner.assertEquals(afterChanges.map(e => e.id).join(','), 'evt_cmp_102,evt_cmp_096');
+  });
+
+  // Test 25: Unique constraints
+  await runner.test('Unique constraints reject duplicates atomically', async () => {
+    const storage = new MockDurableObjectStorage();
+    const userModel = new User(storage);
+
+    await userModel.create({ id: 'u1', workspaceId: 'ws_1', email: 'ana@example.com', handle: 'ana' });
+    await userModel.create({ id: 'u2', workspaceId: 'ws_2', email: 'bob@example.com', handle: 'ana' });
+    // Absent optional values never conflict
+    await userModel.create({ id: 'u3', workspaceId: 'ws_1', email: 'cy@example.com', handle: 'cy' });
+
+    const expectViolation = async (write: () => Promise<unknown>, message: string) => {
+      try {
+        await write();
+        throw new Error('Should have thrown unique constraint error');
+      } catch (error) {
+        runner.assert(
+          error instanceof Error && error.message.includes(message),
+          `Expected "${message}", got "${error instanceof Error ? error.message : error}"`
+        );
+      }
+    };
+
+    await expectViolation(
+      () => userModel.create({ id: 'u4', workspaceId: 'ws_3', email: 'ana@example.com', handle: 'dup' }),
+      "Record with email 'ana@example.com' already exists"
+    );
+    await expectViolation(
+      () => userModel.create({ id: 'u4', workspaceId: 'ws_1', email: 'new@example.com', handle: 'ana' }),
+      "Record with workspaceId 'ws_1' and handle 'ana' already exists"
+    );
+    runner.assert(await userModel.find('u4') === null, 'Rejected create should leave nothing behind');
+    runner.assert(
+      await userModel.findBy('email', 'new@example.com') === null,
+      'Unique keys claimed before the violation should be rolled back'
+    );
+
+    await expectViolation(
+      () => userModel.update('u3', { email: 'bob@example.com' }),
+      "Record with email 'bob@example.com' already exists"
+    );
+    runner.assertEquals((await userModel.find('u3'))!.email, 'cy@example.com', 'Rejected update should not apply');
+
+    // Changing a unique value frees the old one
+    await userModel.update('u1', { email: 'ana@new.example.com' });
+    await userModel.create({ id: 'u5', workspaceId: 'ws_5', email: 'ana@example.com', handle: 'ana2' });
+
+    // Deleting frees values too
+    await userModel.delete('u2');
+    await userModel.create({ id: 'u6', workspaceId: 'ws_6', email: 'bob@example.com', handle: 'bob' });
+  });
+
+  // Test 26: Lookup by unique field
+  await runner.test('findBy and findUnique resolve through unique indexes', async () => {
+    const storage = new CountingStorage();
+    const userModel = new User(storage);
+
+    await userModel.create({ id: 'u1', workspaceId: 'ws_1', email: 'ana@example.com', handle: 'ana' });
+    await userModel.create({ id: 'u2', workspaceId: 'ws_1', email: 'bob@example.com', handle: 'bob' });
+
+    storage.resetCounts();
+    const byEmail = await userModel.findBy('email', 'bob@example.com');
+    runner.assertEquals(byEmail!.id, 'u2');
+    runner.assertEquals(storage.reads.get, 2, 'One unique index read plus the record read');
+    runner.assertEquals(storage.reads.list, 0, 'Should not scan');
+
+    const byHandle = await userModel.findUnique({ workspaceId: 'ws_1', handle: 'ana' });
+    runner.assertEquals(byHandle!.id, 'u1');
+    runner.assert(await userModel.findUnique({ workspaceId: 'ws_2', handle: 'ana' }) === null, 'Missing value');
+
+    // Non-unique fields fall back to a query
+    const byWorkspace = await userModel.findBy('workspaceId', 'ws_1');
+    runner.assert(byWorkspace !== null, 'findBy should work on non-unique fields');
+
+    try {
+      await userModel.findUnique({ workspaceId: 'ws_1' });
+      throw new Error('Should have thrown');
+    } catch (error) {
+      runner.assert(
+        error instanceof Error && error.message.includes('No unique constraint on fields: workspaceId'),
+        'findUnique should require a unique constraint'
+      );
+    }
+  });
+
+  // Test 27: Cursor pagination
+  await runner.test('Cursor pagination is stable under inserts', async () => {
+    const storage = new CountingStorage();
+    const eventModel = new Event(storage);
+
+    // 25 events, several sharing a timestamp so ties are broken by id
+    for (let i = 0; i < 25; i++) {
+      await eventModel.create({
+        id: `evt_page_${String(i).padStart(2, '0')}`,
+        workspaceId: 'ws_page',
+        timestamp: new Date(Date.UTC(2024, 0, 1, 0, Math.floor(i / 2))),
+        type: 'click',
+        data: {},
+      });
+    }
+
+    const seen: string[] = [];
+    const first = await eventModel.where({}).orderBy('timestamp', 'desc').paginate(10);
+    runner.assertEquals(first.items.length, 10);
+    runner.assert(first.hasMore && first.nextCursor !== null, 'First page should have a next cursor');
+    seen.push(...first.items.map(e => e.id));
+
+    // A newer event arrives between page requests; it must not shift later pages
+    await eventModel.create({
+      id: 'evt_page_new',
+      workspaceId: 'ws_page',
+      timestamp: new Date(Date.UTC(2024, 0, 2)),
+      type: 'click',
+      data: {},
+    });
+
+    storage.resetCounts();
+    const second = await eventModel.where({}).orderBy('timestamp', 'desc').cursor(first.nextCursor).paginate(10);
+    runner.assertEquals(storage.reads.loaded, 11, 'Should resume at the cursor, not reload earlier pages');
+    seen.push(...second.items.map(e => e.id));
+
+    const third = await eventModel.where({}).orderBy('timestamp', 'desc').cursor(second.nextCursor).paginate(10);
+    runner.assertEquals(third.items.length, 5);
+    runner.assert(!third.hasMore && third.nextCursor === null, 'Last page should have no cursor');
+    seen.push(...third.items.map(e => e.id));
+
+    const expected = Array.from({ length: 25 }, (_, i) => `evt_page_${String(i).padStart(2, '0')}`);
+    // Descending by timestamp, ties descending by id
+    expected.sort((a, b) => {
+      const minuteA = Math.floor(Number(a.slice(-2)) / 2);
+      const minuteB = Math.floor(Number(b.slice(-2)) / 2);
+      return minuteB - minuteA || (a < b ? 1 : -1);
+    });
+    runner.assertEquals(seen.join(','), expected.join(','), 'Pages should cover every record exactly once');
+
+    // Without orderBy, pages follow id order, also through a non-indexed filter
+    const byId = await eventModel.where({ type: 'click' }).paginate(20);
+    const rest = await eventModel.where({ type: 'click' }).cursor(byId.nextCursor).paginate(20);
+    runner.assertEquals(byId.items[0].id, 'evt_page_00');
+    runner.assertEquals(rest.items[rest.items.length - 1].id, 'evt_page_new');
+    runner.assertEquals(byId.items.length + rest.items.length, 26);
+
+    try {
+      await eventModel.where({}).orderBy('type').cursor(first.nextCursor).paginate(10);
+      throw new Error('Should have thrown');
+    } catch (error) {
+      runner.assert(
+        error instanceof Error && error.message.includes("Cursor was created for orderBy 'timestamp'"),
+        'Cursors should be tied to their sort order'
+      );
+    }
+  });
+
+  // Test 28: Query planner
+  await runner.test('Planner picks, intersects or skips indexes', async () => {
+    const storage = new CountingStorage();
+    const taskModel = new Task(storage);
+
+    for (let i = 0; i < 40; i++) {
+      await taskModel.create({
+        id: `task_plan_${String(i).padStart(2, '0')}`,
+        title: `Task ${i}`,
+        assignee: i % 2 === 0 ? 'ana' : 'bo',
+        completedAt: null,
+        status: i % 3 === 0 ? 'done' : 'pending',
+      });
+    }
+    await taskModel.create({ id: 'task_plan_cy', title: 'Cy task', assignee: 'cy', completedAt: null, status: 'done' });
+
+    // A non-indexed first key no longer hides the indexed one
+    const byTitle = await taskModel.where({ title: 'Task 6', assignee: 'ana' }).execute();
+    runner.assertEquals(byTitle.length, 1, 'Should find the task through the assignee index');
+    const titlePlan = await taskModel.where({ title: 'Task 6', assignee: 'ana' }).explain();
+    runner.assertEquals(titlePlan.strategy, 'index');
+    runner.assertEquals(titlePlan.indexes.join(','), 'assignee');
+    runner.assertEquals(titlePlan.estimatedCandidates, 20);
+
+    // Two indexes that each match many records are intersected
+    storage.resetCounts();
+    const both = await taskModel.where({ assignee: 'ana', status: 'done' }).explain();
+    runner.assertEquals(both.strategy, 'intersection');
+    runner.assertEquals(both.indexes.join(','), 'status,assignee', 'Smallest index should come first');
+    runner.assertEquals(both.keysRead, 35, 'Should read one index entry per candidate');
+    runner.assertEquals(both.estimatedCandidates, 7);
+    runner.assertEquals(
+      JSON.stringify(both.considered),
+      JSON.stringify([
+        { index: 'assignee', estimatedCandidates: 20 },
+        { index: 'status', estimatedCandidates: 15 },
+      ])
+    );
+    runner.assertEquals(storage.reads.get, 0, 'explain() should not load records');
+
+    storage.resetCounts();
+    const intersected = await taskModel.where({ assignee: 'ana', status: 'done' }).execute();
+    runner.assertEquals(intersected.length, 7);
+    runner.assertEquals(storage.reads.loaded, 7, 'Should only load the intersected candidates');
+
+    // A highly selective index is used alone
+    const rare = await taskModel.where({ assignee: 'cy', status: 'done' }).explain();
+    runner.assertEquals(rare.strategy, 'index');
+    runner.assertEquals(rare.indexes.join(','), 'assignee');
+    runner.assertEquals(rare.estimatedCandidates, 1);
+
+    // No usable index: full scan
+    const scanPlan = await taskModel.where({ title: 'Task 7' }).explain();
+    runner.assertEquals(scanPlan.strategy, 'scan');
+    runner.assertEquals(scanPlan.estimatedCandidates, null);
+    runner.assertEquals((await taskModel.where({ title: 'Task 7' }).execute()).length, 1);
+
+    // A sorted walk that enforces every filter stops at the limit without costing
+    const top = await taskModel.where({}).orderBy('status').limit(5).explain();
+    runner.assertEquals(top.strategy, 'index');
+    runner.assert(top.ordered, 'Status index should supply the order');
+    runner.assertEquals(top.keysRead, 0);
+    runner.assertEquals(top.estimatedCandidates, 5);
+  });
+
+  // Test 29: Batched record loading
+  await runner.test('Queries load records in batched gets', async () => {
+    const storage = new CountingStorage();
+    const eventModel = new Event(storage);
+    const start = Date.UTC(2024, 0, 1);
+
+    for (let i = 0; i < 10000; i++) {
+      await eventModel.create({
+        id: `evt_bench_${String(i).padStart(5, '0')}`,
+        workspaceId: 'ws_bench',
+        timestamp: new Date(start + i * 1000),
+        type: i % 10 === 0 ? 'signup' : 'click',
+        data: {},
+      });
+    }
+    for (let i = 0; i < 500; i++) {
+      await eventModel.create({
+        id: `evt_other_${String(i).padStart(3, '0')}`,
+        workspaceId: 'ws_other',
+        timestamp: new Date(start + i * 1000),
+        type: 'click',
+        data: {},
+      });
+    }
+
+    // The index in pages of 1000 entries (the first read while planning), then 128 records per get() call
+    storage.resetCounts();
+    const workspace = await eventModel.where({ workspaceId: 'ws_bench' }).execute();
+    runner.assertEquals(workspace.length, 10000);
+    runner.assertEquals(storage.reads.list, 10, 'Should read the workspace index in pages');
+    runner.assertEquals(storage.reads.get, 80, 'Should load each page of 1000 ids in 8 gets');
+    runner.assertEquals(storage.reads.loaded, 10000);
+    console.log(`   10k-record workspace query: ${storage.reads.list} list + ${storage.reads.get} get calls`);
+
+    // Full scans use the values list() returns instead of reading each record again
+    storage.resetCounts();
+    const signups = await eventModel.where({ type: 'signup' }).execute();
+    runner.assertEquals(signups.length, 1000);
+    runner.assertEquals(storage.reads.get, 0, 'Full scan should not re-read records');
+    runner.assertEquals(storage.reads.list, 11, 'Should read 10,500 records in pages of 1000');
+    console.log(`   10.5k-record full scan: ${storage.reads.list} list + ${storage.reads.get} get calls`);
+
+    // A limited scan without orderBy stops at the first page
+    storage.resetCounts();
+    const firstSignups = await eventModel.where({ type: 'signup' }).limit(5).execute();
+    runner.assertEquals(firstSignups.length, 5);
+    runner.assertEquals(storage.reads.list, 1);
+  });
+
+  // Test 30: Bulk writes
+  await runner.test('Bulk writes report per-record results', async () => {
+    const storage = new CountingStorage();
+    const userModel = new User(storage);
+
+    await userModel.create({ id: 'user_000', workspaceId: 'ws_a', email: 'u0@example.com', handle: 'u0' });
+
+    const inputs: any[] = [];
+    for (let i = 0; i < 200; i++) {
+      inputs.push({
+        id: `user_${String(i + 1).padStart(3, '0')}`,
+        workspaceId: i % 2 === 0 ? 'ws_a' : 'ws_b',
+        email: `u${i + 1}@example.com`,
+        handle: `u${i + 1}`,
+      });
+    }
+    inputs.push({ id: 'user_bad', workspaceId: 'ws_a', email: 42, handle: 'bad' });
+    inputs.push({ id: 'user_dup', workspaceId: 'ws_a', email: 'u1@example.com', handle: 'dup' });
+    inputs.push({ id: 'user_000', workspaceId: 'ws_a', email: 'other@example.com', handle: 'other' });
+
+    storage.resetCounts();
+    const created = await userModel.createMany(inputs);
+    runner.assertEquals(created.created, 200);
+    runner.assertEquals(created.failed, 2);
+    runner.assertEquals(created.skipped, 1, 'Existing ids should be skipped');
+    runner.assertEquals(created.results[200].status, 'failed');
+    runner.assert(created.results[200].error!.includes("Field 'email' must be a string"), 'Should report the validation error');
+    runner.assert(created.results[201].error!.includes("email 'u1@example.com' already exists"), 'Should report the unique conflict');
+    runner.assertEquals(created.results[202].status, 'skipped');
+    // 200 records, 400 unique keys and 200 index entries, 128 per call
+    runner.assertEquals(storage.writes.put, 7, 'Writes should be coalesced into multi-key puts');
+    runner.assert(storage.reads.get <= 10, `Reads should be batched, got ${storage.reads.get} get calls`);
+    runner.assertEquals((await userModel.where({ workspaceId: 'ws_b' }).execute()).length, 100);
+    runner.assertEquals(await userModel.find('user_dup'), null, 'Failed records should not be written');
+
+    // upsert creates, skips unchanged records and updates changed ones
+    const fresh = await userModel.upsert({ id: 'user_new', workspaceId: 'ws_a', email: 'new@example.com', handle: 'new' });
+    runner.assertEquals(fresh.status, 'created');
+    const same = await userModel.upsert({ id: 'user_new', workspaceId: 'ws_a', email: 'new@example.com', handle: 'new' });
+    runner.assertEquals(same.status, 'skipped');
+    const changed = await userModel.upsert({ id: 'user_new', workspaceId: 'ws_a', email: 'newer@example.com', handle: 'new' });
+    runner.assertEquals(changed.status, 'updated');
+    runner.assertEquals((await userModel.findUnique({ email: 'newer@example.com' }))?.id, 'user_new');
+    runner.assertEquals(await userModel.findUnique({ email: 'new@example.com' }), null, 'Old unique key should be released');
+
+    // updateWhere moves index entries and reports unchanged records as skipped
+    const moved = await userModel.updateWhere({ workspaceId: 'ws_b' }, { workspaceId: 'ws_c' });
+    runner.assertEquals(moved.updated, 100);
+    runner.assertEquals((await userModel.where({ workspaceId: 'ws_b' }).execute()).length, 0);
+    runner.assertEquals((await userModel.where({ workspaceId: 'ws_c' }).execute()).length, 100);
+    const unchanged = await userModel.updateWhere({ workspaceId: 'ws_c' }, { workspaceId: 'ws_c' });
+    runner.assertEquals(unchanged.skipped, 100);
+
+    const clash = await userModel.updateWhere({ id: { in: ['user_001', 'user_003'] } }, { nickname: 'twin' });
+    runner.assertEquals(clash.updated, 1);
+    runner.assertEquals(clash.failed, 1, 'Second record should hit the unique nickname');
+    runner.assertEquals(clash.results[1].status, 'failed');
+
+    // deleteWhere removes records with their index and unique entries
+    storage.resetCounts();
+    const removed = await userModel.deleteWhere({ workspaceId: 'ws_c' });
+    runner.assertEquals(removed.deleted, 100);
+    runner.assertEquals(storage.writes.delete, 4, '100 records, 200 unique keys and 100 index entries in 128-key deletes');
+    runner.assertEquals(await userModel.count(), 102);
+    runner.assertEquals(await userModel.findUnique({ email: 'u2@example.com' }), null);
+    await userModel.create({ id: 'user_again', workspaceId: 'ws_a', email: 'u2@example.com', handle: 'u2' });
+  });
+
+  // Test 31: Legacy ID-array indexes are migrated
+  await runner.test('Legacy index arrays migrate to per-entry keys', async () => {
+    const storage = new MockDurableObjectStorage();
+
+    // Data as written by the array layout: one ID list per index value, keyed by String(value) or a date's ISO string
+    const ids: string[] = [];
+    for (let i = 0; i < 5000; i++) {
+      const id = `evt_legacy_${String(i).padStart(4, '0')}`;
+      const timestamp = new Date(Date.UTC(2024, 0, 1) + i * 1000);
+      ids.push(id);
+      await storage.put(`event:${id}`, {
+        id,
+        workspaceId: 'ws_legacy',
+        timestamp: timestamp.toISOString(),
+        type: 'click',
+        data: {},
+      });
+      await storage.put(`index:event:timestamp:${timestamp.toISOString()}`, [id]);
+    }
+    await storage.put('index:event:workspaceId:ws_legacy', ids);
+
+    // The first query migrates before reading the index
+    const eventModel = new Event(storage);
+    const found = await eventModel.where({ workspaceId: 'ws_legacy' }).execute();
+    runner.assertEquals(found.length, 5000);
+
+    const entries = await storage.list({ prefix: 'index:event:' });
+    runner.assertEquals(entries.size, 10000, 'Each (value, id) pair should have its own key');
+    runner.assert([...entries.values()].every(value => typeof value === 'string'), 'No ID arrays should remain');
+    runner.assertEquals(await storage.get('meta:event:indexLayout'), 2);
+    runner.assertEquals(await new Event(storage).migrateIndexes(), 0, 'Migration should only run once');
+
+    const latest = await eventModel.where({}).orderBy('timestamp', 'desc').limit(3).execute();
+    runner.assertEquals(latest.map(e => e.id).join(','), 'evt_legacy_4999,evt_legacy_4998,evt_legacy_4997');
+    const ranged = await eventModel.where({ timestamp: { gte: new Date(Date.UTC(2024, 0, 1) + 4990 * 1000) } }).execute();
+    runner.assertEquals(ranged.length, 10);
+
+    const report = await eventModel.checkIndexes();
+    runner.assertEquals(report.missing.length + report.orphaned.length, 0, 'Converted entries should match the records');
+
+    // Writes keep working on migrated indexes
+    await eventModel.delete('evt_legacy_0000');
+    runner.assertEquals((await eventModel.where({ workspaceId: 'ws_legacy' }).execute()).length, 4999);
+  });
+
+  // Test 32: Workspaces with hundreds of thousands of events
+  await runner.test('Per-entry indexes scale to large workspaces', async () => {
+    const storage = new CountingStorage();
+    const feedModel = new FeedEvent(storage);
+    const total = 200000;
+    const start = Date.UTC(2024, 0, 1);
+
+    for (let offset = 0; offset < total; offset += 1000) {
+      const chunk = [];
+      for (let i = offset; i < offset + 1000; i++) {
+        chunk.push({
+          id: `evt_big_${String(i).padStart(6, '0')}`,
+          workspaceId: 'ws_big',
+          timestamp: new Date(start + i * 1000),
+          type: 'click',
+          data: {},
+        });
+      }
+      const result = await feedModel.createMany(chunk);
+      if (result.created !== 1000) throw new Error(`Chunk at ${offset} created ${result.created}`);
+    }
+
+    // Inserting into a huge workspace writes one record and one entry, reading nothing else
+    storage.resetCounts();
+    await feedModel.create({
+      id: 'evt_big_latest',
+      workspaceId: 'ws_big',
+      timestamp: new Date(start + total * 1000),
+      type: 'click',
+      data: {},
+    });
+    runner.assertEquals(storage.reads.loaded, 1, 'Insert should only check the record key');
+    runner.assertEquals(storage.reads.list, 0);
+    runner.assertEquals(storage.writes.put, 1, 'Record and index entry should go out in one put');
+
+    // The latest page is one bounded index read
+    storage.resetCounts();
+    const page = await feedModel.where({ workspaceId: 'ws_big' }).orderBy('timestamp', 'desc').paginate(50);
+    runner.assertEquals(page.items[0].id, 'evt_big_latest');
+    runner.assertEquals(page.items[49].id, 'evt_big_199951');
+    runner.assertEquals(storage.reads.list, 1);
+    runner.assertEquals(storage.reads.loaded, 51);
+
+    // Deep pages cost the same as the first
+    const deep = await feedModel
+      .where({ workspaceId: 'ws_big', timestamp: { lt: new Date(start + 1000 * 1000) } })
+      .orderBy('timestamp', 'desc')
+      .paginate(50);
+    storage.resetCounts();
+    const next = await feedModel
+      .where({ workspaceId: 'ws_big', timestamp: { lt: new Date(start + 1000 * 1000) } })
+      .orderBy('timestamp', 'desc')
+      .cursor(deep.nextCursor)
+      .paginate(50);
+    runner.assertEquals(next.items[0].id, 'evt_big_000949');
+    runner.assertEquals(storage.reads.list, 1);
+    runner.assertEquals(storage.reads.loaded, 51);
+
+    // Planning an unbounded workspace query reads a bounded number of entries
+    const plan = await feedModel.where({ workspaceId: 'ws_big' }).explain();
+    runner.assertEquals(plan.estimatedCandidates, null, 'Estimate should stop at the planning budget');
+    runner.assertEquals(plan.keysRead, 1001);
+  });
+
+  // Test 33: Schema migrations
+  await runner.test('Schema migrations upgrade records lazily and in bulk', async () => {
+    const storage = new MockDurableObjectStorage();
+    const v1 = new ProfileV1(storage, 'profile');
+    for (let i = 1; i <= 5; i++) {
+      await v1.create({ id: `p${i}`, name: `User ${i}`, email: `User${i}@Example.com`, legacyScore: i });
+    }
+
+    const profileModel = new Profile(storage, 'profile');
+    runner.assertEquals(profileModel.schemaVersion, 5);
+
+    // Reads upgrade old records in memory
+    const read = await profileModel.find('p1');
+    runner.assertEquals(JSON.stringify(read), JSON.stringify({
+      id: 'p1',
+      email: 'user1@example.com',
+      plan: 'free',
+      displayName: 'User 1',
+    }));
+    runner.assertEquals((await storage.get<any>('profile:p1')).name, 'User 1', 'Reads should not rewrite records');
+
+    // Updating an old record passes validation and stores it at the current version
+    const updated = await profileModel.update('p1', { plan: 'pro' });
+    runner.assertEquals(updated.displayName, 'User 1');
+    const stored = await storage.get<any>('profile:p1');
+    runner.assertEquals(stored._v, 5);
+    runner.assertEquals(stored.legacyScore, undefined, 'Dropped field should be gone');
+    runner.assertEquals((await profileModel.findUnique({ email: 'user1@example.com' }))?.id, 'p1');
+
+    let status = await profileModel.migrationStatus();
+    runner.assertEquals(status.tableVersion, 1);
+    runner.assertEquals(status.pending.join(','), '2,3,4,5');
+
+    // Until migrateAll(), queries and lookups on migrated fields read upgraded records instead of their indexes
+    runner.assertEquals((await profileModel.where({ plan: 'free' }).execute()).length, 4);
+    runner.assertEquals((await profileModel.where({ plan: 'free' }).explain()).strategy, 'scan');
+    runner.assertEquals((await profileModel.findUnique({ email: 'user3@example.com' }))?.id, 'p3');
+    runner.assertEquals(await profileModel.findUnique({ email: 'User3@Example.com' }), null);
+
+    const result = await profileModel.migrateAll({ chunkSize: 2 });
+    runner.assertEquals(result.migrated, 4, 'Already upgraded records should be skipped');
+    runner.assertEquals((await profileModel.where({ plan: 'free' }).execute()).length, 4);
+    runner.assertEquals((await profileModel.findUnique({ email: 'user3@example.com' }))?.id, 'p3');
+    runner.assertEquals(await profileModel.findUnique({ email: 'User3@Example.com' }), null, 'Old unique key should be released');
+
+    status = await profileModel.migrationStatus();
+    runner.assertEquals(status.tableVersion, 5);
+    runner.assertEquals(status.pending.length, 0);
+    runner.assertEquals(status.applied.map(m => m.version).join(','), '2,3,4,5');
+    runner.assertEquals(status.applied[0].description, 'Add plan');
+    runner.assertEquals((await profileModel.migrateAll()).migrated, 0, 'Second run should do nothing');
+
+    // A new table starts at the current version
+    const fresh = new Profile(new MockDurableObjectStorage(), 'profile');
+    runner.assertEquals((await fresh.migrationStatus()).tableVersion, 5);
+  });
+
+  // Test 34: Index rebuild, consistency check and repair
+  await runner.test('Rebuilds indexes and checks them against records', async () => {
+    const storage = new MockDurableObjectStorage();
+    const eventModel = new Event(storage, 'events');
+    for (let i = 0; i < 10; i++) {
+      await eventModel.create({
+        id: `evt_${i}`,
+        workspaceId: 'ws_1',
+        timestamp: new Date(Date.UTC(2024, 0, 1, i)),
+        type: i % 2 === 0 ? 'click' : 'view',
+        data: {},
+      });
+    }
+
+    // Declaring a new index leaves existing records out of it
+    const typedModel = new TypedEvent(storage, 'events');
+    let report = await typedModel.checkIndexes();
+    runner.assertEquals(report.missing.length, 10);
+    runner.assert(report.missing.every(issue => issue.index === 'type'), 'Only the new index should be missing entries');
+    runner.assertEquals(report.orphaned.length, 0);
+
+    // Stopping at maxRecords leaves a saved position to resume from
+    const first = await typedModel.rebuildIndexes(['type'], { chunkSize: 3, maxRecords: 4 });
+    runner.assertEquals(first.done, false);
+    runner.assertEquals(first.processed, 4);
+    runner.assertEquals((await typedModel.checkIndexes()).missing.length, 6);
+
+    const second = await typedModel.rebuildIndexes(['type'], { chunkSize: 3 });
+    runner.assertEquals(second.done, true);
+    runner.assertEquals((await typedModel.where({ type: 'click' }).execute()).length, 5);
+    report = await typedModel.checkIndexes();
+    runner.assertEquals(report.missing.length + report.orphaned.length + report.undeclared.length, 0);
+
+    try {
+      await typedModel.rebuildIndexes(['data']);
+      throw new Error('Should have rejected an undeclared index');
+    } catch (error) {
+      runner.assert(
+        error instanceof Error && error.message === 'No index on fields: data',
+        'Should name the undeclared index'
+      );
+    }
+
+    // A record removed behind the model's back leaves orphans in every index
+    await storage.delete('events:evt_3');
+    await storage.put('index:events:type:bogus', 'evt_99');
+    report = await typedModel.checkIndexes();
+    runner.assertEquals(report.orphaned.length, 4);
+    runner.assert(report.orphaned.some(issue => issue.id === 'evt_99'), 'Entry for a missing record should be orphaned');
+
+    // The original model no longer declares the type index
+    report = await eventModel.checkIndexes();
+    runner.assertEquals(report.undeclared.length, 1);
+    runner.assertEquals(report.undeclared[0].index, 'type');
+    runner.assertEquals(report.undeclared[0].entries, 11, 'Every stored entry should count, orphaned or not');
+
+    report = await typedModel.checkIndexes({ repair: true });
+    runner.assertEquals(report.repaired, true);
+    report = await typedModel.checkIndexes();
+    runner.assertEquals(report.missing.length + report.orphaned.length + report.undeclared.length, 0);
+    runner.assertEquals((await typedModel.where({ type: 'view' }).execute()).length, 4);
+  });
+
+  // Test 35: Lifecycle hooks
+  await runner.test('Runs lifecycle hooks inside the write transaction', async () => {
+    const storage = new MockDurableObjectStorage();
+    const memberModel = new Member(storage);
+    const auditModel = new Event(storage, 'audit');
+    const calls: string[] = [];
+
+    memberModel.on('afterCreate', async (member, { transaction }) => {
+      calls.push(`afterCreate:${member.id}`);
+      if (member.name === 'Mallory') {
+        throw new Error('Blocked by audit');
+      }
+      await transaction.bind(auditModel).create({
+        id: `audit_${member.id}`,
+        workspaceId: 'members',
+        timestamp: new Date(),
+        type: 'member.created',
+        data: { email: member.email },
+      });
+    });
+    memberModel.on('beforeUpdate', (member, previous) => {
+      calls.push(`beforeUpdate:${previous.name}->${member.name}`);
+      return { ...member, name: member.name.trim() };
+    });
+    memberModel.on('afterDelete', member => {
+      calls.push(`afterDelete:${member.id}`);
+    });
+
+    // beforeValidate normalises the email before validation and unique checks
+    const alice = await memberModel.create({ id: 'm1', email: ' Alice@Example.COM ', name: 'Alice', role: 'admin' });
+    runner.assertEquals(alice.email, 'alice@example.com');
+    runner.assertEquals((await memberModel.findUnique({ email: 'alice@example.com' }))?.id, 'm1');
+    runner.assertEquals((await auditModel.find('audit_m1'))?.data.email, 'alice@example.com', 'afterCreate should write in the same transaction');
+
+    // A failing after hook rolls back the record and everything the hooks wrote
+    try {
+      await memberModel.create({ id: 'm2', email: 'mallory@example.com', name: 'Mallory', role: 'member' });
+      throw new Error('Should have thrown');
+    } catch (error) {
+      runner.assert(error instanceof Error && error.message === 'Blocked by audit', 'Hook error should reach the caller');
+    }
+    runner.assertEquals(await memberModel.find('m2'), null);
+    runner.assertEquals(await memberModel.findUnique({ email: 'mallory@example.com' }), null);
+
+    // beforeUpdate sees the old and new record and may replace the new one
+    const updated = await memberModel.update('m1', { name: '  Alicia ' });
+    runner.assertEquals(updated.name, 'Alicia');
+    runner.assertEquals((await memberModel.find('m1'))?.name, 'Alicia');
+    runner.assert(calls.includes('beforeUpdate:Alice->  Alicia '), 'beforeUpdate should receive the previous record');
+
+    // beforeDelete aborts deletes; bulk deletes report the rejected records
+    await memberModel.create({ id: 'm3', email: 'bob@example.com', name: 'Bob', role: 'member' });
+    try {
+      await memberModel.delete('m1');
+      throw new Error('Should have thrown');
+    } catch (error) {
+      runner.assert(error instanceof Error && error.message === "Cannot delete admin 'm1'", 'beforeDelete should abort');
+    }
+    const result = await memberModel.deleteWhere({});
+    runner.assertEquals(result.deleted, 1);
+    runner.assertEquals(result.failed, 1);
+    runner.assertEquals(result.results.find(r => r.status === 'failed')?.id, 'm1');
+    runner.assertEquals(calls.filter(call => call.startsWith('afterDelete')).join(','), 'afterDelete:m3');
+
+    // Hooks apply to bulk writes, and on() returns a function that removes the hook
+    const created = await memberModel.createMany([
+      { id: 'm4', email: 'CAROL@example.com', name: 'Carol', role: 'member' },
+      { id: 'm5', email: 'carol@example.com ', name: 'Carol 2', role: 'member' },
+    ]);
+    runner.assertEquals(created.created, 1);
+    runner.assertEquals(created.failed, 1, 'Normalised emails should conflict');
+
+    const remove = memberModel.on('beforeCreate', () => {
+      throw new Error('Closed');
+    });
+    remove();
+    await memberModel.create({ id: 'm6', email: 'dave@example.com', name: 'Dave', role: 'member' });
+    runner.assertEquals(await memberModel.count(), 3);
+  });
+
+  // Test 36: Change feed
+  await runner.test('Delivers committed changes to subscribers', async () => {
+    const storage = new MockDurableObjectStorage();
+    const eventModel = new Event(storage);
+    const changes: string[] = [];
+    const unsubscribe = eventModel.subscribe({ workspaceId: 'ws_a' }, change => {
+      changes.push(`${change.type}:${change.id}:${change.before?.type ?? '-'}->${change.after?.type ?? '-'}`);
+    });
+    const base = { timestamp: new Date('2024-01-01T00:00:00Z'), data: {} };
+
+    await eventModel.create({ id: 'evt_1', workspaceId: 'ws_a', type: 'click', ...base });
+    await eventModel.create({ id: 'evt_2', workspaceId: 'ws_b', type: 'click', ...base });
+    await eventModel.update('evt_1', { type: 'view' });
+    runner.assertEquals(changes.join(','), 'insert:evt_1:-->click,update:evt_1:click->view');
+
+    // Moving a record out of the filter is still delivered, with both images
+    await eventModel.update('evt_1', { workspaceId: 'ws_b' });
+    await eventModel.update('evt_2', { workspaceId: 'ws_a' });
+    runner.assertEquals(changes.length, 4);
+
+    // Changes inside a transaction arrive only once it commits
+    await eventModel.transaction(async tx => {
+      await tx.bind(eventModel).delete('evt_2');
+      runner.assertEquals(changes.length, 4, 'Changes should wait for the commit');
+    });
+    runner.assertEquals(changes[4], 'delete:evt_2:click->-');
+
+    // Rolled back and failed writes are never delivered
+    await eventModel.transaction(async tx => {
+      await tx.bind(eventModel).create({ id: 'evt_3', workspaceId: 'ws_a', type: 'click', ...base });
+      tx.rollback();
+    });
+    try {
+      await eventModel.create({ id: 'evt_1', workspaceId: 'ws_a', type: 'click', ...base });
+    } catch (error) {
+      // Duplicate id
+    }
+    runner.assertEquals(changes.length, 5);
+
+    // A failing subscriber does not affect the write or other subscribers; its errors go to onError
+    const failures: string[] = [];
+    const removeFailing = eventModel.subscribe({}, () => {
+      throw new Error('Subscriber failed');
+    }, { onError: (error, change) => failures.push(`${change.id}:${(error as Error).message}`) });
+    const removeRejecting = eventModel.subscribe({}, async () => {
+      throw new Error('Subscriber rejected');
+    }, { onError: (error, change) => failures.push(`${change.id}:${(error as Error).message}`) });
+    await eventModel.create({ id: 'evt_4', workspaceId: 'ws_a', type: 'click', ...base });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    removeFailing();
+    removeRejecting();
+    runner.assertEquals(changes.length, 6);
+    runner.assertEquals(failures.join(','), 'evt_4:Subscriber failed,evt_4:Subscriber rejected');
+
+    unsubscribe();
+    await eventModel.delete('evt_4');
+    runner.assertEquals(changes.length, 6, 'Unsubscribed handlers should not be called');
+  });
+
+  // Test 37: Soft delete
+  await runner.test('Soft-deletes, restores and purges records', async () => {
+    const storage = new MockDurableObjectStorage();
+    const documentModel = new Document(storage);
+    for (let i = 1; i <= 3; i++) {
+      await documentModel.create({ id: `doc_${i}`, ownerId: 'owner_1', title: `Doc ${i}` });
+    }
+
+    runner.assertEquals(await documentModel.delete('doc_2'), true);
+    runner.assertEquals(await documentModel.delete('doc_2'), false, 'Deleting twice should report nothing deleted');
+    runner.assertEquals(await documentModel.find('doc_2'), null);
+    const deleted = await documentModel.find('doc_2', { withDeleted: true });
+    runner.assert(deleted?.deletedAt instanceof Date, 'deletedAt should be set');
+
+    // Queries, counts and lookups skip soft-deleted records by default
+    runner.assertEquals((await documentModel.where({ ownerId: 'owner_1' }).execute()).length, 2);
+    runner.assertEquals(await documentModel.count(), 2);
+    runner.assertEquals(await documentModel.findUnique({ title: 'Doc 2' }), null);
+    runner.assertEquals((await documentModel.where({ ownerId: 'owner_1' }).withDeleted().execute()).length, 3);
+    const onlyDeleted = await documentModel.where({ ownerId: 'owner_1' }).onlyDeleted().limit(5).execute();
+    runner.assertEquals(onlyDeleted.map(doc => doc.id).join(','), 'doc_2');
+
+    // Soft-deleted records release their unique values and can't be updated
+    await documentModel.create({ id: 'doc_4', ownerId: 'owner_1', title: 'Doc 2' });
+    runner.assertEquals((await documentModel.findBy('title', 'Doc 2'))?.id, 'doc_4');
+    try {
+      await documentModel.update('doc_2', { title: 'Renamed' });
+      throw new Error('Should have thrown');
+    } catch (error) {
+      runner.assert(error instanceof Error && error.message.includes('not found'), 'Soft-deleted records should not be updatable');
+    }
+    try {
+      await documentModel.upsert({ id: 'doc_2', ownerId: 'owner_2', title: 'Upserted' });
+      throw new Error('Should have thrown');
+    } catch (error) {
+      runner.assert(error instanceof Error && error.message === "Record with id 'doc_2' not found", 'Soft-deleted records should not be upserted');
+    }
+    runner.assertEquals((await documentModel.find('doc_2', { withDeleted: true }))?.ownerId, 'owner_1', 'Failed upsert should change nothing');
+
+    // Restoring claims the values again, failing while another record holds one
+    try {
+      await documentModel.restore('doc_2');
+      throw new Error('Should have thrown');
+    } catch (error) {
+      runner.assert(error instanceof Error && error.message === "Record with title 'Doc 2' already exists", 'Restore should not steal unique values');
+    }
+    runner.assert((await documentModel.find('doc_2', { withDeleted: true }))?.deletedAt instanceof Date, 'Failed restore should change nothing');
+    await documentModel.purge('doc_4');
+
+    const restored = await documentModel.restore('doc_2');
+    runner.assertEquals(restored.deletedAt, null);
+    runner.assertEquals((await documentModel.find('doc_2'))?.title, 'Doc 2');
+    runner.assertEquals((await documentModel.findUnique({ title: 'Doc 2' }))?.id, 'doc_2');
+    runner.assertEquals(await documentModel.count(), 3);
+
+    // purge() removes records for good, soft-deleted or not
+    await documentModel.delete('doc_3');
+    runner.assertEquals(await documentModel.purge('doc_3'), true);
+    runner.assertEquals(await documentModel.purge('doc_1'), true);
+    runner.assertEquals(await documentModel.find('doc_3', { withDeleted: true }), null);
+    runner.assertEquals((await documentModel.where({ ownerId: 'owner_1' }).withDeleted().execute()).length, 1);
+    runner.assertEquals((await storage.list({ prefix: 'index:document:' })).size, 1);
+    runner.assertEquals((await storage.list({ prefix: 'unique:document:' })).size, 1);
+
+    try {
+      await new Event(storage).restore('evt_1');
+      throw new Error('Should have thrown');
+    } catch (error) {
+      runner.assert(error instanceof Error && error.message.includes('Soft delete is not enabled'), 'restore() needs soft delete');
+    }
+  });
+
+  // Test 38: Managed timestamps and optimistic concurrency
+  await runner.test('Manages timestamps and rejects stale versions', async () => {
+    const storage = new MockDurableObjectStorage();
+    const noteModel = new Note(storage);
+    const past = new Date('2020-01-01T00:00:00Z');
+
+    // Managed fields are set by the model, whatever the input says
+    const note = await noteModel.create({ id: 'note_1', body: 'Draft', createdAt: past, version: 7 });
+    runner.assertEquals(note.version, 1);
+    runner.assert(note.createdAt > past, 'createdAt should be set on create');
+    runner.assertEquals(note.updatedAt.getTime(), note.createdAt.getTime());
+
+    const edited = await noteModel.update('note_1', { body: 'Edited' }, { expectedVersion: 1 });
+    runner.assertEquals(edited.version, 2);
+    runner.assertEquals(edited.createdAt.getTime(), note.createdAt.getTime(), 'createdAt should not change');
+    runner.assert(edited.updatedAt >= note.updatedAt, 'updatedAt should move forward');
+
+    // Two writers that read version 2: the second one loses
+    const [first, second] = await Promise.all([noteModel.find('note_1'), noteModel.find('note_1')]);
+    await noteModel.update('note_1', { body: 'First' }, { expectedVersion: first!.version });
+    try {
+      await noteModel.update('note_1', { body: 'Second' }, { expectedVersion: second!.version });
+      throw new Error('Should have thrown');
+    } catch (error) {
+      runner.assert(error instanceof VersionConflictError, 'Should throw a VersionConflictError');
+      runner.assertEquals((error as VersionConflictError).actualVersion, 3);
+      runner.assertEquals((error as Error).message, "Record with id 'note_1' is at version 3, expected 2");
+    }
+    runner.assertEquals((await noteModel.find('note_1'))?.body, 'First');
+
+    // Unchanged upserts don't bump the version; bulk updates do
+    runner.assertEquals((await noteModel.upsert({ id: 'note_1', body: 'First' })).status, 'skipped');
+    await noteModel.updateWhere({ id: 'note_1' }, { body: 'Bulk' });
+    runner.assertEquals((await noteModel.find('note_1'))?.version, 4);
+
+    const eventModel = new Event(storage);
+    await eventModel.create({ id: 'evt_1', workspaceId: 'ws_1', timestamp: past, type: 'click', data: {} });
+    try {
+      await eventModel.update('evt_1', { type: 'view' }, { expectedVersion: 1 });
+      throw new Error('Should have thrown');
+    } catch (error) {
+      runner.assert(
+        error instanceof Error && error.message === "Versioning is not enabled for table 'event'",
+        'expectedVersion needs a versioned model'
+      );
+    }
+
+    // after()/before() ignore managed timestamps, even when they are indexed
+    interface LogSchema extends SchemaDefinition {
+      id: 'string';
+      happenedAt: 'date';
+      createdAt: { type: 'date'; default: () => Date };
+      updatedAt: { type: 'date'; default: () => Date };
+    }
+    class Log extends DOModel<LogSchema> {
+      protected schema: LogSchema = {
+        id: 'string',
+        happenedAt: 'date',
+        createdAt: { type: 'date', default: () => new Date() },
+        updatedAt: { type: 'date', default: () => new Date() },
+      };
+      protected indexes = ['createdAt'] as const;
+      protected timestamps = true;
+    }
+    const logModel = new Log(storage);
+    await logModel.create({ id: 'log_1', happenedAt: new Date('2030-01-01T00:00:00Z') });
+    runner.assertEquals((await logModel.where({}).after(new Date('2027-06-01T00:00:00Z')).execute()).length, 1);
+    runner.assertEquals((await logModel.where({}).before(new Date('2027-06-01T00:00:00Z')).execute()).length, 0);
+  });
+
+  // Test 39: Record expiration
+  await runner.test('Hides expired records and sweeps them on alarm', async () => {
+    const storage = new MockDurableObjectStorage();
+    const sessionModel = new Session(storage);
+    const expired = () => new Date(Date.now() - 1000);
+
+    // New records get the model's TTL unless create() is given one
+    const s1 = await sessionModel.create({ id: 's1', userId: 'u1', token: 't1' });
+    runner.assert(Math.abs(s1.expiresAt!.getTime() - (Date.now() + 60_000)) < 1000, 'Default TTL should apply');
+    runner.assertEquals(await storage.getAlarm(), s1.expiresAt!.getTime());
+    const s2 = await sessionModel.create({ id: 's2', userId: 'u1', token: 't2' }, { ttl: 10_000 });
+    runner.assertEquals(await storage.getAlarm(), s2.expiresAt!.getTime(), 'Earlier expiries should move the alarm');
+
+    // Expired records are hidden before any sweep
+    await sessionModel.create({ id: 's3', userId: 'u1', token: 't3', expiresAt: expired() });
+    runner.assertEquals(await sessionModel.find('s3'), null);
+    runner.assertEquals((await sessionModel.where({ userId: 'u1' }).execute()).length, 2);
+    runner.assertEquals(await sessionModel.count(), 2);
+    runner.assertEquals(await sessionModel.delete('s3'), false);
+
+    // Expired ids and unique values can be reused right away
+    await sessionModel.create({ id: 's3', userId: 'u2', token: 't3' });
+    runner.assertEquals((await sessionModel.find('s3'))?.userId, 'u2');
+    runner.assertEquals((await storage.list({ prefix: 'index:session:userId:' })).size, 3, 'Replaced record should leave no entries');
+
+    // The alarm handler sweeps in bounded batches and reschedules
+    await sessionModel.update('s3', { expiresAt: expired() });
+    for (let i = 4; i <= 8; i++) {
+      await sessionModel.create({ id: `s${i}`, userId: 'u3', token: `t${i}`, expiresAt: expired() });
+    }
+    // The runtime clears the alarm as it fires
+    await storage.deleteAlarm();
+    let sweep = await sessionModel.sweepExpired({ batchSize: 2, maxBatches: 2 });
+    runner.assertEquals(sweep.deleted, 4);
+    runner.assertEquals(sweep.done, false);
+    runner.assert((await storage.getAlarm())! <= Date.now(), 'Unfinished sweeps should fire again right away');
+
+    await storage.deleteAlarm();
+    sweep = await sessionModel.sweepExpired({ batchSize: 2 });
+    runner.assertEquals(sweep.deleted, 2);
+    runner.assertEquals(sweep.done, true);
+    runner.assertEquals(await storage.getAlarm(), s2.expiresAt!.getTime(), 'Alarm should be set for the next expiry');
+    runner.assertEquals((await storage.list({ prefix: 'session:' })).size, 2);
+    runner.assertEquals((await storage.list({ prefix: 'unique:session:' })).size, 2);
+    const report = await sessionModel.checkIndexes();
+    runner.assertEquals(report.missing.length + report.orphaned.length + report.undeclared.length, 0);
+
+    // Expiry entries whose record is gone are dropped rather than rescheduled
+    await sessionModel.create({ id: 's9', userId: 'u4', token: 't9', expiresAt: expired() });
+    await storage.delete('session:s9');
+    for (let i = 0; i < 3; i++) {
+      await storage.deleteAlarm();
+      sweep = await sessionModel.sweepExpired();
+      runner.assertEquals(sweep.deleted, 0);
+      runner.assertEquals(await storage.getAlarm(), s2.expiresAt!.getTime(), 'Stale entries should not set the alarm');
+    }
+    runner.assertEquals((await storage.list({ prefix: 'index:session:expiresAt:' })).size, 2);
+
+    try {
+      await new Event(storage).create(
+        { id: 'evt_1', workspaceId: 'ws_1', timestamp: new Date(), type: 'click', data: {} },
+        { ttl: 1000 }
+      );
+      throw new Error('Should have thrown');
+    } catch (error) {
+      runner.assert(error instanceof Error && error.message === "Expiry is not enabled for table 'event'", 'ttl needs expiry');
+    }
+  });
+
+  // Test 40: Aggregations
+  await runner.test('Aggregations read index keys where possible', async () => {
+    const storage = new CountingStorage();
+    const eventModel = new WorkspaceEvent(storage);
+    const jobModel = new Job(storage);
+
+    for (let i = 0; i < 12; i++) {
+      await eventModel.create({
+        id: `evt_agg_${String(i).padStart(2, '0')}`,
+        workspaceId: i % 2 === 0 ? 'ws_a' : 'ws_b',
+        timestamp: new Date(Date.UTC(2024, 0, 1, i)),
+        type: i % 3 === 0 ? 'signup' : 'click',
+        data: {},
+      });
+    }
+
+    storage.resetCounts();
+    runner.assertEquals(await eventModel.where({ workspaceId: 'ws_a' }).count(), 6);
+    runner.assertEquals(await eventModel.where({}).count(), 12);
+    runner.assertEquals(await eventModel.where({ workspaceId: { in: ['ws_a', 'ws_a'] } }).count(), 6, 'Repeated in values count once');
+
+    const groups = await eventModel.where({}).groupBy(['workspaceId', 'type']).aggregate({
+      events: 'count',
+      first: { min: 'timestamp' },
+    });
+    runner.assertEquals(groups.map(g => `${g.workspaceId}/${g.type}:${g.events}`).join(','), 'ws_a/click:4,ws_a/signup:2,ws_b/click:4,ws_b/signup:2');
+    runner.assert(groups[1].first instanceof Date, 'Dates should be decoded from index keys');
+    runner.assertEquals(groups[1].first!.getTime(), Date.UTC(2024, 0, 1, 0));
+
+    runner.assertEquals((await eventModel.where({}).distinct('workspaceId')).join(','), 'ws_a,ws_b');
+    runner.assertEquals(storage.reads.loaded, 0, 'Indexed aggregates should not load records');
+
+    // Type alone is not a prefix of any index, so records are scanned
+    runner.assertEquals(await eventModel.where({ type: 'click' }).count(), 8);
+
+    const job = { owner: 'ana@example.com', tags: [], slug: 'job' };
+    await jobModel.create({ ...job, id: 'job_1', status: 'pending', priority: 1 });
+    await jobModel.create({ ...job, id: 'job_2', status: 'pending', priority: 4 });
+    await jobModel.create({ ...job, id: 'job_3', status: 'done', priority: 5 });
+
+    const pending = () => jobModel.where({ status: 'pending' });
+    runner.assertEquals(await pending().sum('priority'), 5);
+    runner.assertEquals(await pending().avg('priority'), 2.5);
+    runner.assertEquals(await pending().max('priority'), 4);
+    runner.assertEquals(await jobModel.where({}).min('priority'), 1);
+    runner.assertEquals(await jobModel.where({ status: 'running' }).sum('priority'), 0);
+    runner.assertEquals(await jobModel.where({ status: 'running' }).avg('priority'), null);
+
+    const byStatus = await jobModel.where({}).groupBy('status').aggregate({ jobs: 'count', total: { sum: 'priority' } });
+    runner.assertEquals(JSON.stringify(byStatus), '[{"status":"done","jobs":1,"total":5},{"status":"pending","jobs":2,"total":5}]');
+
+    try {
+      await jobModel.where({}).sum('status');
+      throw new Error('Should have thrown');
+    } catch (error) {
+      runner.assert(error instanceof Error && error.message === "Cannot sum non-number field 'status'", 'sum needs a number field');
+    }
+  });
+
+  // Test 41: Field projection and large fields
+  await runner.test('select() narrows records and skips large fields', async () => {
+    const storage = new CountingStorage();
+    const eventModel = new LeanEvent(storage, 'lean');
+
+    // Written by a model without large fields, so data is stored inline
+    await new Event(storage, 'lean').create({
+      id: 'evt_0', workspaceId: 'ws_1', timestamp: new Date(Date.UTC(2024, 0, 1, 0)), type: 'legacy', data: { size: 0 },
+    });
+    for (let i = 1; i <= 4; i++) {
+      await eventModel.create({
+        id: `evt_${i}`,
+        workspaceId: 'ws_1',
+        timestamp: new Date(Date.UTC(2024, 0, 1, i)),
+        type: i % 2 === 0 ? 'click' : 'view',
+        data: { size: i, payload: 'x'.repeat(100) },
+      });
+    }
+
+    runner.assertEquals((await storage.get('lean:evt_1') as any).data, undefined, 'Large fields should not be in the record');
+    runner.assertEquals((await storage.get('field:lean:data:evt_1') as any).size, 1);
+    runner.assertEquals((await eventModel.find('evt_1'))!.data.size, 1);
+    runner.assertEquals((await eventModel.find('evt_0'))!.data.size, 0, 'Inline values should still be read');
+
+    storage.resetCounts();
+    const listed: { id: string; type: string; timestamp: Date }[] = await eventModel
+      .where({ workspaceId: 'ws_1' })
+      .select(['id', 'type', 'timestamp'])
+      .orderBy('timestamp', 'desc')
+      .execute();
+    runner.assertEquals(listed.map(event => event.id).join(','), 'evt_4,evt_3,evt_2,evt_1,evt_0');
+    runner.assertEquals(Object.keys(listed[0]).sort().join(','), 'id,timestamp,type');
+    runner.assert(listed[0].timestamp instanceof Date, 'Selected dates should be deserialized');
+    runner.assertEquals(storage.reads.loaded, 5, 'Only the record keys should be read');
+
+    const ids = await eventModel.where({ workspaceId: 'ws_1' }).select(['id']).execute();
+    // @ts-expect-error data was not selected
+    runner.assertEquals(ids[0].data, undefined);
+
+    const full = await eventModel.where({ workspaceId: 'ws_1' }).execute();
+    runner.assertEquals(full.map(event => event.data.size).join(','), '0,1,2,3,4');
+
+    // Pages carry only the selected fields, while cursors still use the sort field
+    const query = () => eventModel.where({ workspaceId: 'ws_1' }).select(['type']).orderBy('timestamp');
+    const first = await query().paginate(3);
+    runner.assertEquals(JSON.stringify(first.items), '[{"type":"legacy"},{"type":"view"},{"type":"click"}]');
+    const second = await query().cursor(first.nextCursor).paginate(3);
+    runner.assertEquals(JSON.stringify(second.items), '[{"type":"view"},{"type":"click"}]');
+    runner.assertEquals(second.hasMore, false);
+
+    // Writes move inline values to their own key and keep unchanged large fields
+    await eventModel.update('evt_0', { type: 'migrated' });
+    runner.assertEquals((await storage.get('lean:evt_0') as any).data, undefined);
+    runner.assertEquals((await eventModel.find('evt_0'))!.data.size, 0);
+
+    await eventModel.delete('evt_1');
+    runner.assertEquals(await storage.get('field:lean:data:evt_1'), undefined, 'Deletes should remove large fields');
+
+    class IndexedLargeEvent extends DOModel<EventSchema> {
+      protected schema: EventSchema = { id: 'string', workspaceId: 'string', timestamp: 'date', type: 'string', data: 'object' };
+      protected indexes = ['workspaceId'] as const;
+      protected largeFields = ['workspaceId'] as const;
+    }
+    try {
+      await new IndexedLargeEvent(storage, 'indexed_large').create({
+        id: 'evt_1', workspaceId: 'ws_1', timestamp: new Date(), type: 'click', data: {},
+      });
+      throw new Error('Should have thrown');
+    } catch (error) {
+      runner.assert(error instanceof Error && error.message === "Large field 'workspaceId' cannot be indexed or unique", 'Large fields cannot be indexed');
+    }
+  });
+
+  // Test 42: Relations
+  await runner.test('Relations load with include() and apply onDelete rules', async () => {
+    const storage = new CountingStorage();
+    const teamModel = new Team(storage);
+    const personModel = new Person(storage);
+    const projectModel = new Project(storage);
+    const labelModel = new Label(storage);
+    const linkModel = new ProjectLabel(storage);
+
+    await teamModel.create({ id: 't1', name: 'Core' });
+    await teamModel.create({ id: 't2', name: 'Web' });
+    await personModel.create({ id: 'p1', name: 'Ana' });
+    await labelModel.create({ id: 'l1', name: 'urgent' });
+    await labelModel.create({ id: 'l2', name: 'backend' });
+    await projectModel.create({ id: 'pr1', teamId: 't1', ownerId: 'p1', name: 'api' });
+    await projectModel.create({ id: 'pr2', teamId: 't1', ownerId: null, name: 'docs' });
+    await projectModel.create({ id: 'pr3', teamId: 't2', ownerId: 'p1', name: 'site' });
+    await linkModel.create({ id: 'pr1:l1', projectId: 'pr1', labelId: 'l1' });
+    await linkModel.create({ id: 'pr1:l2', projectId: 'pr1', labelId: 'l2' });
+    await linkModel.create({ id: 'pr3:l2', projectId: 'pr3', labelId: 'l2' });
+
+    const projects = await projectModel
+      .where({ teamId: 't1' })
+      .include('team')
+      .include('owner')
+      .include('labels')
+      .orderBy('name')
+      .execute();
+    const teamName: string | undefined = projects[0].team?.name;
+    runner.assertEquals(teamName, 'Core');
+    runner.assertEquals(projects[0].owner!.name, 'Ana');
+    runner.assertEquals(projects[1].owner, null);
+    runner.assertEquals(projects[0].labels.map(label => label.name).sort().join(','), 'backend,urgent');
+    runner.assertEquals(projects[1].labels.length, 0);
+
+    storage.resetCounts();
+    await projectModel.where({}).include('team').execute();
+    runner.assertEquals(storage.reads.get, 1, 'Teams should be loaded with one multi-key get');
+
+    const teams = await teamModel.where({}).include('projects').orderBy('id').execute();
+    runner.assertEquals(teams.map(team => team.projects.length).join(','), '2,1');
+
+    const named = await projectModel.where({ teamId: 't2' }).select(['name']).include('owner').execute();
+    runner.assertEquals(JSON.stringify(named), '[{"name":"site","owner":{"id":"p1","name":"Ana"}}]');
+
+    // restrict: labels still linked to projects cannot be deleted
+    try {
+      await labelModel.delete('l2');
+      throw new Error('Should have thrown');
+    } catch (error) {
+      runner.assert(
+        error instanceof Error && error.message === "Cannot delete 'l2' from 'label': 2 record(s) in 'projectlabel' still reference it through 'projects'",
+        'restrict should block the delete'
+      );
+    }
+    runner.assert((await labelModel.find('l2')) !== null, 'Restricted record should be kept');
+
+    // setNull: projects lose their owner
+    await personModel.delete('p1');
+    runner.assertEquals((await projectModel.find('pr1'))!.ownerId, null);
+    runner.assertEquals((await projectModel.find('pr3'))!.ownerId, null);
+
+    // cascade: deleting a team deletes its projects, which remove their label links
+    await teamModel.delete('t1');
+    runner.assertEquals((await projectModel.all()).map(project => project.id).join(','), 'pr3');
+    runner.assertEquals((await linkModel.all()).map(link => link.id).join(','), 'pr3:l2');
+    runner.assertEquals(await labelModel.delete('l1'), true, 'Unlinked labels can be deleted');
+
+    // Bulk deletes cascade once per record, even when the matches include what they cascade to
+    const folderModel = new Folder(storage);
+    await folderModel.create({ id: 'f1', parentId: null, name: 'root' });
+    await folderModel.create({ id: 'f2', parentId: 'f1', name: 'child' });
+    await folderModel.create({ id: 'f3', parentId: 'f2', name: 'grandchild' });
+    const folderChanges: string[] = [];
+    const hookCalls: string[] = [];
+    folderModel.subscribe({}, change => { folderChanges.push(`${change.type}:${change.id}`); });
+    folderModel.on('beforeDelete', record => { hookCalls.push(record.id); });
+    const removed = await folderModel.deleteWhere({});
+    runner.assertEquals(removed.deleted, 3);
+    runner.assertEquals(removed.failed, 0);
+    runner.assertEquals([...folderChanges].sort().join(','), 'delete:f1,delete:f2,delete:f3');
+    runner.assertEquals([...hookCalls].sort().join(','), 'f1,f2,f3');
+    runner.assertEquals((await folderModel.all()).length, 0);
+
+    // A hook rejecting any record in a cascade keeps the whole cascade
+    await teamModel.create({ id: 't3', name: 'Ops' });
+    await projectModel.create({ id: 'pr4', teamId: 't3', ownerId: null, name: 'infra' });
+    await projectModel.create({ id: 'pr5', teamId: 't3', ownerId: null, name: 'oncall' });
+    const projectChanges: string[] = [];
+    projectModel.subscribe({}, change => { projectChanges.push(`${change.type}:${change.id}`); });
+    projectModel.on('beforeDelete', record => {
+      if (record.id === 'pr5') throw new Error('pr5 is locked');
+    });
+    const kept = await teamModel.deleteWhere({});
+    runner.assertEquals(kept.failed, 1);
+    runner.assertEquals(kept.results.find(result => result.status === 'failed')?.id, 't3');
+    runner.assert((await teamModel.find('t3')) !== null, 'Rejected team should be kept');
+    runner.assertEquals((await projectModel.where({ teamId: 't3' }).orderBy('id').execute()).map(project => project.id).join(','), 'pr4,pr5');
+    runner.assertEquals(projectChanges.join(','), 'delete:pr3', 'Only the deleted team should cascade');
+
+    try {
+      await (projectModel.where({}) as any).include('nope').execute();
+      throw new Error('Should have thrown');
+    } catch (error) {
+      runner.assert(error instanceof Error && error.message === "Unknown relation 'nope' on table 'project'", 'Unknown relations should throw');
+    }
+  });
+
+  // Test 43: ID strategies
+  await runner.test('ID strategies generate ids for records created without one', async () => {
+    const storage = new MockDurableObjectStorage();
+    const eventModel = new UlidEvent(storage);
+    const input = { workspaceId: 'ws_1', timestamp: new Date(), type: 'click', data: {} };
+
+    const created = [];
+    for (let i = 0; i < 5; i++) {
+      created.push(await eventModel.create(input));
+    }
+    runner.assert(created.every(event => /^evt_[0-9A-HJKMNP-TV-Z]{26}$/.test(event.id)), 'Ids should be prefixed ULIDs');
+    runner.assertEquals(new Set(created.map(event => event.id)).size, 5);
+
+    // Time-sortable ids make id order creation order, served by a scan that stops at the limit
+    const oldest = await eventModel.where({}).orderBy('id').limit(2).execute();
+    runner.assertEquals(oldest.map(event => event.id).join(','), created.slice(0, 2).map(event => event.id).join(','));
+    const newest = await eventModel.where({}).orderBy('id', 'desc').paginate(3);
+    runner.assertEquals(newest.items[0].id, created[4].id);
+    const rest = await eventModel.where({}).orderBy('id', 'desc').cursor(newest.nextCursor).paginate(3);
+    runner.assertEquals(rest.items.map(event => event.id).join(','), [created[1], created[0]].map(event => event.id).join(','));
+    runner.assertEquals((await eventModel.where({}).orderBy('id').explain()).ordered, true);
+
+    runner.assertEquals((await eventModel.create({ ...input, id: 'evt_custom' })).id, 'evt_custom', 'Given ids are kept');
+
+    const uuids = Array.from({ length: 50 }, () => uuidv7());
+    runner.assert(uuids.every(id => /^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/.test(id)), 'Should be UUIDv7s');
+    runner.assertEquals([...uuids].sort().join(','), uuids.join(','), 'UUIDv7s should sort in creation order');
+    const ulids = Array.from({ length: 50 }, () => ulid());
+    runner.assertEquals([...ulids].sort().join(','), ulids.join(','), 'ULIDs should sort in creation order');
+
+    // Counters persist in storage and only advance when the write commits
+    const counted = new CountedEvent(storage);
+    runner.assertEquals((await counted.create(input)).id, '1');
+    runner.assertEquals((await counted.createMany([input, input])).results.map(result => result.id).join(','), '2,3');
+    try {
+      await counted.create({ ...input, type: 42 as any });
+      throw new Error('Should have thrown');
+    } catch (error) {
+      runner.assert(error instanceof Error && error.message.includes("Field 'type'"), 'Invalid records should be rejected');
+    }
+    runner.assertEquals((await new CountedEvent(storage).create(input)).id, '4');
+
+    class KeyedEvent extends DOModel<EventSchema> {
+      protected schema: EventSchema = { id: 'string', workspaceId: 'string', timestamp: 'date', type: 'string', data: 'object' };
+      protected indexes = [] as const;
+      readonly idStrategy = (record: Record<string, any>) => `${record.workspaceId}:${record.type}`;
+    }
+    runner.assertEquals((await new KeyedEvent(storage).create(input)).id, 'ws_1:click');
+
+    try {
+      // @ts-expect-error id is required without an id strategy
+      await new Event(storage).create(input);
+      throw new Error('Should have thrown');
+    } catch (error) {
+      runner.assert(error instanceof Error && error.message === 'Missing required field: id', 'Models without a strategy need ids');
+    }
+  });
+
+  // Test 44: Full-text search
+  await runner.test('Full-text search ranks records and composes with filters and pagination', async () => {
+    const storage = new MockDurableObjectStorage();
+    const articleModel = new Article(storage);
+
+    await articleModel.create({ id: 'a1', authorId: 'alice', title: 'Durable Objects guide', body: 'Durable Objects store state. Objects are durable.' });
+    await articleModel.create({ id: 'a2', authorId: 'bob', title: 'Workers and Durable Objects', body: 'A long article about workers, caching, routing, bindings and many other topics' });
+    await articleModel.create({ id: 'a3', authorId: 'alice', title: 'Storage API', body: 'Reading and writing durable storage' });
+    await articleModel.create({ id: 'a4', authorId: 'bob', title: 'Caching', body: 'Cache responses at the edge' });
+    const ids = (records: { id: string }[]) => records.map(record => record.id).join(',');
+
+    // Every word must match; denser, shorter matches rank first
+    runner.assertEquals(ids(await articleModel.where({}).search('durable objects').execute()), 'a1,a2');
+    runner.assertEquals(ids(await articleModel.where({}).search('DURABLE!').execute()).split(',').length, 3);
+    runner.assertEquals((await articleModel.where({}).search('stor').execute()).length, 0);
+    runner.assertEquals(ids(await articleModel.where({}).search('stor', { prefix: true }).execute()).split(',').sort().join(','), 'a1,a3');
+    runner.assertEquals((await articleModel.where({}).search('  ').execute()).length, 0);
+
+    // Composes with where, limit, orderBy and aggregates
+    runner.assertEquals(ids(await articleModel.where({ authorId: 'alice' }).search('durable').execute()).split(',').sort().join(','), 'a1,a3');
+    runner.assertEquals(ids(await articleModel.where({}).search('durable objects').limit(1).execute()), 'a1');
+    const byTitle = await articleModel.where({}).search('durable').orderBy('title').execute();
+    runner.assertEquals(byTitle.map(article => article.title).join('|'), 'Durable Objects guide|Storage API|Workers and Durable Objects');
+    runner.assertEquals(await articleModel.where({}).search('durable').count(), 3);
+    runner.assertEquals((await articleModel.where({}).search('durable').explain()).strategy, 'search');
+
+    // Pages follow the ranking without repeats, with or without select
+    const ranked = ids(await articleModel.where({}).search('durable').execute());
+    const first = await articleModel.where({}).search('durable').select(['title']).paginate(2);
+    runner.assert(first.hasMore && first.nextCursor !== null, 'First page should have a cursor');
+    runner.assertEquals(Object.keys(first.items[0]).join(','), 'title');
+    const second = await articleModel.where({}).search('durable').cursor(first.nextCursor).paginate(2);
+    runner.assertEquals(second.hasMore, false);
+    const firstIds = ids(await articleModel.where({}).search('durable').paginate(2).then(page => page.items));
+    runner.assertEquals(`${firstIds},${ids(second.items)}`, ranked);
+    try {
+      await articleModel.where({}).search('durable').orderBy('title').cursor(first.nextCursor).execute();
+      throw new Error('Should have thrown');
+    } catch (error) {
+      runner.assert(error instanceof Error && error.message.includes("orderBy '$relevance'"), 'Ranked cursors need a ranked query');
+    }
+
+    // Later pages are scored like the first, so writes in between lose no results
+    const fruitModel = new Article(new MockDurableObjectStorage());
+    for (let i = 1; i <= 7; i++) {
+      await fruitModel.create({ id: `apple_${i}`, authorId: 'alice', title: `apple${' pie'.repeat(i)}`, body: 'fruit' });
+    }
+    let page = await fruitModel.where({}).search('apple').paginate(3);
+    const paged = page.items.map(article => article.id);
+    for (let i = 0; i < 30; i++) {
+      await fruitModel.create({ id: `other_${i}`, authorId: 'bob', title: 'banana', body: 'unrelated text' });
+    }
+    await fruitModel.create({ id: 'apple_8', authorId: 'bob', title: 'apple', body: 'fruit' });
+    while (page.hasMore) {
+      page = await fruitModel.where({}).search('apple').cursor(page.nextCursor).paginate(3);
+      paged.push(...page.items.map(article => article.id));
+    }
+    runner.assertEquals(new Set(paged).size, paged.length, 'Pages should not repeat records');
+    for (let i = 1; i <= 7; i++) {
+      runner.assert(paged.includes(`apple_${i}`), `apple_${i} should be on a page`);
+    }
+
+    // Cursors hold one count per search word, however many words a prefix matches
+    for (let i = 0; i < 200; i++) {
+      await fruitModel.create({ id: `alpha_${i}`, authorId: 'alice', title: `alpha${i}`, body: 'fruit' });
+    }
+    const prefixed = await fruitModel.where({}).search('a', { prefix: true }).paginate(5);
+    runner.assertEquals(prefixed.items.length, 5);
+    runner.assert(prefixed.nextCursor !== null && prefixed.nextCursor.length < 200, 'Prefix cursors should stay small');
+    try {
+      const forged = encodeCursor({ field: '$relevance', value: { score: 1, stats: { documents: 3, tokens: 9 } }, id: 'apple_1' });
+      await fruitModel.where({}).search('apple').cursor(forged).execute();
+      throw new Error('Should have thrown');
+    } catch (error) {
+      runner.assert(error instanceof Error && error.message.startsWith('Invalid cursor'), 'Cursors need their word counts');
+    }
+
+    // Updates and deletes move the index entries and totals
+    await articleModel.update('a1', { title: 'Durable storage guide', body: 'State that is durable' });
+    runner.assertEquals(ids(await articleModel.where({}).search('objects').execute()), 'a2');
+    await articleModel.delete('a2');
+    runner.assertEquals((await articleModel.where({}).search('objects').execute()).length, 0);
+    const searchKeys = await storage.list({ prefix: 'search:article:' });
+    runner.assert([...searchKeys.keys()].every(key => !key.endsWith('a2\x00')), 'Deleted records should leave no entries');
+    const totals = await storage.get('meta:article:searchTotals') as any;
+    runner.assertEquals(totals.documents, 3);
+
+    // Rebuilding restores a lost index
+    for (const key of searchKeys.keys()) {
+      await storage.delete(key);
+    }
+    runner.assertEquals((await articleModel.where({}).search('durable').execute()).length, 0);
+    runner.assertEquals((await articleModel.rebuildSearchIndex({ chunkSize: 2 })).indexed, 3);
+    runner.assertEquals(ids(await articleModel.where({}).search('durable').execute()).split(',').sort().join(','), 'a1,a3');
+    runner.assertEquals((await storage.get('meta:article:searchTotals') as any).documents, 3);
+
+    try {
+      await new Event(storage).where({}).search('click').execute();
+      throw new Error('Should have thrown');
+    } catch (error) {
+      runner.assert(error instanceof Error && error.message === "Table 'event' has no searchable fields", 'Searching needs searchable fields');
+    }
+  });
+
   return runner.summary();
 }
 
@@ -2,16 +2,19 @@
  * Cloudflare Worker with Durable Object using DO-ORM
  */
 
-import { DOModel, SchemaDefinition, InferSchemaType } from '../src/index';
+import { DOModel, SchemaDefinition, InferSchemaType, WhereClause, Migration, VersionConflictError } from '../src/index';
 
 // Define Event schema
 interface EventSchema extends SchemaDefinition {
   id: 'string';
   workspaceId: 'string';
   timestamp: 'date';
-  type: 'string';
+  type: { type: 'string'; searchable: true };
   userId: 'string';
   data: 'object';
+  createdAt: { type: 'date'; default: () => Date };
+  updatedAt: { type: 'date'; default: () => Date };
+  version: { type: 'number'; integer: true; default: number };
 }
 
 class Event extends DOModel<EventSchema> {
@@ -19,22 +22,85 @@ class Event extends DOModel<EventSchema> {
     id: 'string',
     workspaceId: 'string',
     timestamp: 'date',
-    type: 'string',
+    type: { type: 'string', searchable: true },
     userId: 'string',
     data: 'object',
+    createdAt: { type: 'date', default: () => new Date() },
+    updatedAt: { type: 'date', default: () => new Date() },
+    version: { type: 'number', integer: true, default: 1 },
   };
   
   protected indexes = ['workspaceId', 'userId', 'timestamp'] as const;
+
+  // Event payloads live under their own keys, so list views selecting other fields skip them
+  protected largeFields = ['data'] as const;
+
+  // Time-sortable ids, so ordering by id lists events in creation order
+  readonly idStrategy = { type: 'ulid', prefix: 'evt_' } as const;
+
+  // Managed fields for optimistic concurrency on PUT /events/:id
+  protected timestamps = true;
+  protected versioned = true;
+  protected migrations: Migration[] = [
+    // Existing events were created at their timestamp and not updated since, not when they are migrated
+    { version: 2, type: 'addField', field: 'createdAt', default: (record: Record<string, any>) => record.timestamp, description: 'Track creation time' },
+    { version: 3, type: 'addField', field: 'updatedAt', default: (record: Record<string, any>) => record.createdAt, description: 'Track update time' },
+    { version: 4, type: 'addField', field: 'version', description: 'Track record versions' },
+  ];
+}
+
+// Filter a change stream was opened with, kept on its socket across hibernation
+interface StreamAttachment {
+  filter: WhereClause<InferSchemaType<EventSchema>>;
 }
 
 // Durable Object class
 export class EventStore {
   private state: DurableObjectState;
   private eventModel: Event;
+  private streams = new Map<WebSocket, () => void>();
 
   constructor(state: DurableObjectState, env: Env) {
     this.state = state;
     this.eventModel = new Event(state.storage, 'events');
+
+    // Answer keep-alive pings without waking the object
+    state.setWebSocketAutoResponse(new WebSocketRequestResponsePair('ping', 'pong'));
+
+    // Sockets accepted before the object hibernated come back on wake-up; resubscribe them
+    for (const ws of state.getWebSockets()) {
+      this.streamChanges(ws);
+    }
+  }
+
+  /**
+   * Forward changes matching a socket's filter to it
+   */
+  private streamChanges(ws: WebSocket): void {
+    const { filter } = ws.deserializeAttachment() as StreamAttachment;
+    // A socket that can no longer be sent to stops streaming
+    const unsubscribe = this.eventModel.subscribe(filter, change => {
+      ws.send(JSON.stringify(change));
+    }, { onError: () => this.closeStream(ws) });
+    this.streams.set(ws, unsubscribe);
+  }
+
+  private closeStream(ws: WebSocket): void {
+    this.streams.get(ws)?.();
+    this.streams.delete(ws);
+  }
+
+  async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer): Promise<void> {
+    // Streams are one-way; pings are answered by the auto-response
+  }
+
+  async webSocketClose(ws: WebSocket, code: number, reason: string, wasClean: boolean): Promise<void> {
+    this.closeStream(ws);
+    ws.close(code, reason);
+  }
+
+  async webSocketError(ws: WebSocket, error: unknown): Promise<void> {
+    this.closeStream(ws);
   }
 
   async fetch(request: Request): Promise<Response> {
@@ -43,15 +109,40 @@ export class EventStore {
     const method = request.method;
 
     try {
+      // GET /events/stream?workspaceId=...&userId=...&type=... - Stream changes over a WebSocket
+      if (path === '/events/stream' && method === 'GET') {
+        if (request.headers.get('Upgrade') !== 'websocket') {
+          return new Response(JSON.stringify({
+            success: false,
+            error: 'Expected a WebSocket upgrade'
+          }), {
+            status: 426,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        const filter: any = {};
+        for (const field of ['workspaceId', 'userId', 'type']) {
+          const value = url.searchParams.get(field);
+          if (value) {
+            filter[field] = value;
+          }
+        }
+
+        // Hibernatable socket: the object can be evicted from memory while clients stay connected
+        const [client, server] = Object.values(new WebSocketPair());
+        this.state.acceptWebSocket(server);
+        server.serializeAttachment({ filter } satisfies StreamAttachment);
+        this.streamChanges(server);
+
+        return new Response(null, { status: 101, webSocket: client });
+      }
+
       // POST /events - Create a new event
       if (path === '/events' && method === 'POST') {
+        // Events created without an id get one from the model's id strategy
         const body = await request.json() as any;
         
-        // Generate ID if not provided
-        if (!body.id) {
-          body.id = `evt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-        }
-        
         // Parse timestamp if string
         if (body.timestamp && typeof body.timestamp === 'string') {
           body.timestamp = new Date(body.timestamp);
@@ -90,15 +181,19 @@ export class EventStore {
         });
       }
 
-      // GET /events?workspaceId=...&limit=... - Query events
+      // GET /events?workspaceId=...&limit=...&cursor=... - Query events
       if (path === '/events' && method === 'GET') {
         const workspaceId = url.searchParams.get('workspaceId');
         const userId = url.searchParams.get('userId');
         const after = url.searchParams.get('after');
         const before = url.searchParams.get('before');
         const limit = url.searchParams.get('limit');
-        const orderBy = url.searchParams.get('orderBy') || 'timestamp';
+        const cursor = url.searchParams.get('cursor');
+        const q = url.searchParams.get('q');
+        // Searches are ranked by relevance unless an order is asked for
+        const orderBy = url.searchParams.get('orderBy') || (q ? null : 'timestamp');
         const order = url.searchParams.get('order') || 'desc';
+        const fields = url.searchParams.get('fields');
 
         // Build where conditions
         const whereConditions: any = {};
@@ -122,34 +217,48 @@ export class EventStore {
           query = query.before(new Date(before));
         }
         
-        if (limit) {
-          query = query.limit(parseInt(limit, 10));
+        if (cursor) {
+          query = query.cursor(cursor);
         }
         
-        query = query.orderBy(orderBy as any, order as 'asc' | 'desc');
+        // ?q=butt matches types such as "button_click" as they are typed
+        if (q) {
+          query = query.search(q, { prefix: true });
+        }
+
+        if (orderBy) {
+          query = query.orderBy(orderBy as any, order as 'asc' | 'desc');
+        }
+
+        // ?fields=id,type,timestamp returns only those fields, without reading event data
+        const projected = fields ? query.select(fields.split(',') as (keyof InferSchemaType<EventSchema>)[]) : query;
         
-        const events = await query.execute();
+        // Page through results; pass nextCursor back as ?cursor= for the next page
+        const page = await projected.paginate(limit ? parseInt(limit, 10) : 100);
         
         return new Response(JSON.stringify({
           success: true,
-          count: events.length,
-          events
+          count: page.items.length,
+          events: page.items,
+          nextCursor: page.nextCursor,
+          hasMore: page.hasMore
         }), {
           headers: { 'Content-Type': 'application/json' }
         });
       }
 
       // PUT /events/:id - Update event
+      // Pass the version you read as "expectedVersion" to reject the update if someone else wrote first
       if (path.startsWith('/events/') && method === 'PUT') {
         const id = path.split('/')[2];
-        const body = await request.json() as any;
+        const { expectedVersion, ...body } = await request.json() as any;
         
         // Parse timestamp if string
         if (body.timestamp && typeof body.timestamp === 'string') {
           body.timestamp = new Date(body.timestamp);
         }
         
-        const event = await this.eventModel.update(id, body);
+        const event = await this.eventModel.update(id, body, { expectedVersion });
         
         return new Response(JSON.stringify({
           success: true,
@@ -175,13 +284,13 @@ export class EventStore {
 
       // GET /stats - Get statistics
       if (path === '/stats' && method === 'GET') {
-        const count = await this.eventModel.count();
-        const all = await this.eventModel.all();
-        
-        // Calculate some basic stats
-        const workspaces = new Set(all.map(e => e.workspaceId)).size;
-        const users = new Set(all.map(e => e.userId)).size;
-        const types = new Set(all.map(e => e.type)).size;
+        // Counts and indexed fields are read from index keys; only the
+        // unindexed `type` needs records loaded
+        const events = () => this.eventModel.where({});
+        const count = await events().count();
+        const workspaces = (await events().distinct('workspaceId')).length;
+        const users = (await events().distinct('userId')).length;
+        const types = (await events().distinct('type')).length;
         
         return new Response(JSON.stringify({
           success: true,
@@ -214,7 +323,8 @@ export class EventStore {
         availableEndpoints: [
           'POST /events - Create event',
           'GET /events/:id - Get event',
-          'GET /events?workspaceId=...&limit=... - Query events',
+          'GET /events?workspaceId=...&q=...&limit=...&cursor=...&fields=... - Query events',
+          'GET /events/stream?workspaceId=... - Stream changes (WebSocket)',
           'PUT /events/:id - Update event',
           'DELETE /events/:id - Delete event',
           'GET /stats - Get statistics',
@@ -226,6 +336,17 @@ export class EventStore {
       });
 
     } catch (error) {
+      if (error instanceof VersionConflictError) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: error.message,
+          currentVersion: error.actualVersion
+        }), {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
       return new Response(JSON.stringify({
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error'